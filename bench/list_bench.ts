@@ -0,0 +1,84 @@
+import { List } from "../src/list.ts";
+
+// The `Array` benchmarks reproduce the previous storage of List, which copied the whole backing array on every update.
+const SIZE = 10_000;
+const array = Array.from({ length: SIZE }, (_, i) => i);
+const list = List.from(array);
+
+Deno.bench(
+  "Array: build by appending",
+  { group: "build", baseline: true },
+  () => {
+    let acc: readonly number[] = [];
+    for (let i = 0; i < SIZE; i++) acc = [...acc, i];
+  },
+);
+
+Deno.bench("List: build by appending", { group: "build" }, () => {
+  let acc = List.empty<number>();
+  for (let i = 0; i < SIZE; i++) acc = acc.append(i);
+});
+
+Deno.bench("Array: prepend", { group: "prepend", baseline: true }, () => {
+  [-1, ...array];
+});
+
+Deno.bench("List: prepend", { group: "prepend" }, () => {
+  list.prepend(-1);
+});
+
+Deno.bench("Array: insert", { group: "insert", baseline: true }, () => {
+  array.toSpliced(SIZE / 2, 0, -1);
+});
+
+Deno.bench("List: insert", { group: "insert" }, () => {
+  list.insert(-1, SIZE / 2);
+});
+
+Deno.bench("Array: remove", { group: "remove", baseline: true }, () => {
+  array.toSpliced(SIZE / 2, 1);
+});
+
+Deno.bench("List: remove", { group: "remove" }, () => {
+  list.remove(SIZE / 2);
+});
+
+Deno.bench("Array: replace", { group: "replace", baseline: true }, () => {
+  array.with(SIZE / 2, -1);
+});
+
+Deno.bench("List: replace", { group: "replace" }, () => {
+  list.replace(-1, SIZE / 2);
+});
+
+Deno.bench("Array: update", { group: "update", baseline: true }, () => {
+  array.with(SIZE / 2, array[SIZE / 2] + 1);
+});
+
+Deno.bench("List: update", { group: "update" }, () => {
+  list.update(SIZE / 2, (n) => n + 1);
+});
+
+Deno.bench("Array: index access", { group: "at", baseline: true }, () => {
+  array.at(SIZE / 2);
+});
+
+Deno.bench("List: index access", { group: "at" }, () => {
+  list.at(SIZE / 2);
+});
+
+Deno.bench("Array: iterate", { group: "iterate", baseline: true }, () => {
+  for (const _ of array);
+});
+
+Deno.bench("List: iterate", { group: "iterate" }, () => {
+  for (const _ of list);
+});
+
+Deno.bench("Array: copy", { group: "toArray", baseline: true }, () => {
+  array.slice();
+});
+
+Deno.bench("List: toArray", { group: "toArray" }, () => {
+  list.toArray();
+});
@@ -0,0 +1,500 @@
+import { isTagged, type Tagged, type TagOf } from "./error.ts";
+import { type Option } from "./option.ts";
+import { Err, type InferErr, Ok, Result } from "./result.ts";
+import { Awaitable, Defined } from "./types.ts";
+
+/**
+ * Represents a Result that will be available in the future. It wraps a `Promise<Result<T, E>>`
+ * and can be awaited directly to obtain the underlying Result.
+ * Every callback accepted by its methods may be synchronous or return a promise.
+ * @class
+ * @template T - The type of the Ok value.
+ * @template E - The type of the Err error.
+ */
+export class AsyncResult<T extends Defined, E extends Defined>
+  implements PromiseLike<Result<T, E>> {
+  #promise: Promise<Result<T, E>>;
+
+  private constructor(promise: PromiseLike<Result<T, E>>) {
+    this.#promise = Promise.resolve(promise);
+  }
+
+  /**
+   * Iterates the result for use with `yield*` inside `AsyncResult.gen`. It waits for the underlying Result and then
+   * behaves like iterating that Result.
+   * @returns {AsyncGenerator<Result<never, E>, T, unknown>} An async generator returning the Ok value.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<
+    Result<never, E>,
+    T,
+    unknown
+  > {
+    return yield* await this.#promise;
+  }
+
+  /**
+   * Creates an AsyncResult instance with an Ok value.
+   * @static
+   * @param {T} value - The value to be contained in the Ok result.
+   * @returns {AsyncResult<T, never>} An AsyncResult instance with the Ok value.
+   * @example
+   * const okResult = AsyncResult.Ok(42);
+   */
+  static Ok<T extends Defined>(value: T): AsyncResult<T, never> {
+    return new AsyncResult(Promise.resolve(Ok(value)));
+  }
+
+  /**
+   * Creates an AsyncResult instance with an Err error.
+   * @static
+   * @param {E} error - The error to be contained in the Err result.
+   * @returns {AsyncResult<never, E>} An AsyncResult instance with the Err error.
+   * @example
+   * const errResult = AsyncResult.Err("Error message");
+   */
+  static Err<E extends Defined>(error: E): AsyncResult<never, E> {
+    return new AsyncResult(Promise.resolve(Err(error)));
+  }
+
+  /**
+   * Creates an AsyncResult from a Result or from a promise that resolves to a Result.
+   * @static
+   * @param {Awaitable<Result<T, E>>} result - The Result, or promise of a Result, to wrap.
+   * @returns {AsyncResult<T, E>} An AsyncResult that resolves to the given Result.
+   * @template T - The type of the Ok value.
+   * @template E - The type of the Err error.
+   * @example
+   * const asyncResult = AsyncResult.from(Result.Ok(42));
+   * const fromPromise = AsyncResult.from(fetchUser(id)); // Promise<Result<User, string>>
+   */
+  static from<T extends Defined, E extends Defined>(
+    result: Awaitable<Result<T, E>>,
+  ): AsyncResult<T, E> {
+    if (result instanceof AsyncResult) return result;
+    return new AsyncResult(Promise.resolve(result));
+  }
+
+  /**
+   * Runs an async generator function as a sequence of dependent steps. Inside the generator, `yield*` unwraps an Ok
+   * Result or AsyncResult, or stops the whole computation on the first Err, which becomes the returned result.
+   * The error type is the union of the error types of every yielded result.
+   * @static
+   * @param {() => AsyncGenerator<Y, T, unknown>} fn - The async generator function describing the computation.
+   * @returns {AsyncResult<T, InferErr<Y>>} An AsyncResult resolving to Ok with the returned value, or the first Err encountered.
+   * @template Y - The type of the results yielded by the generator.
+   * @template T - The type of the returned value.
+   * @example
+   * const user = AsyncResult.gen(async function* () {
+   *   const response = yield* fetchJson(url); // AsyncResult<unknown, HttpError>
+   *   const user = yield* parseUser(response); // Result<User, ParseError>
+   *   return user;
+   * }); // AsyncResult<User, HttpError | ParseError>
+   */
+  static gen<Y extends Result<never, Defined>, T extends Defined>(
+    fn: () => AsyncGenerator<Y, T, unknown>,
+  ): AsyncResult<T, InferErr<Y>> {
+    return new AsyncResult((async () => {
+      const iterator = fn();
+      const next = await iterator.next();
+      if (next.done) return Ok(next.value);
+      await iterator.return(undefined as never);
+      return next.value as unknown as Result<never, InferErr<Y>>;
+    })());
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying promise.
+   * This makes AsyncResult awaitable: `await asyncResult` yields a `Result<T, E>`.
+   * @param {(value: Result<T, E>) => A | PromiseLike<A>} [onfulfilled] - The callback to execute when the Result is available.
+   * @param {(reason: unknown) => B | PromiseLike<B>} [onrejected] - The callback to execute when a callback threw or rejected.
+   * @returns {Promise<A | B>} A promise for the completion of whichever callback is executed.
+   * @method
+   * @example
+   * const result = await AsyncResult.Ok(42); // Returns: Result.Ok(42)
+   */
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): Promise<A | B> {
+    return this.#promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Matches the result, applying the provided function onOk if the result is Ok, or onErr if the result is Err.
+   * @param {(value: T) => Awaitable<U>} onOk - The function to apply if the result is Ok.
+   * @param {(error: E) => Awaitable<U>} onErr - The function to apply if the result is Err.
+   * @returns {Promise<U>} A promise resolving to the result of applying the appropriate function.
+   * @template U - The type of the result returned by the functions.
+   * @example
+   * const message = await fetchUser(id).match(
+   *   (user) => `Hello ${user.name}`,
+   *   (error) => `Error: ${error}`,
+   * );
+   */
+  match<U>(
+    onOk: (value: T) => Awaitable<U>,
+    onErr: (error: E) => Awaitable<U>,
+  ): Promise<U> {
+    return this.#promise.then((result) => result.match(onOk, onErr));
+  }
+
+  /**
+   * Checks if the result is Ok.
+   * @returns {Promise<boolean>} A promise resolving to true if the result is Ok, false if it is Err.
+   * @method
+   * @example
+   * const isOk = await AsyncResult.Ok(42).isOk(); // Returns: true
+   */
+  isOk(): Promise<boolean> {
+    return this.#promise.then((result) => result.isOk());
+  }
+
+  /**
+   * Checks if the result is Ok and satisfies a given condition.
+   * @param {(value: T) => Awaitable<boolean>} fn - The condition function to check against the Ok value.
+   * @returns {Promise<boolean>} A promise resolving to true if the result is Ok and the condition is satisfied, false otherwise.
+   * @method
+   * @example
+   * const isGreaterThan20 = await AsyncResult.Ok(42).isOkAnd((value) => value > 20); // Returns: true
+   */
+  isOkAnd(fn: (value: T) => Awaitable<boolean>): Promise<boolean> {
+    return this.match(fn, () => false);
+  }
+
+  /**
+   * Checks if the result is Err.
+   * @returns {Promise<boolean>} A promise resolving to true if the result is Err, false if it is Ok.
+   * @method
+   * @example
+   * const isErr = await AsyncResult.Err("Error message").isErr(); // Returns: true
+   */
+  isErr(): Promise<boolean> {
+    return this.#promise.then((result) => result.isErr());
+  }
+
+  /**
+   * Checks if the result is Err and satisfies a given condition.
+   * @param {(error: E) => Awaitable<boolean>} fn - The condition function to check against the Err value.
+   * @returns {Promise<boolean>} A promise resolving to true if the result is Err and the condition is satisfied, false otherwise.
+   * @method
+   * @example
+   * const isErrorLong = await AsyncResult.Err("Error message").isErrAnd((error) => error.length > 10); // Returns: true
+   */
+  isErrAnd(fn: (error: E) => Awaitable<boolean>): Promise<boolean> {
+    return this.match(() => false, fn);
+  }
+
+  /**
+   * Transforms the result into an Option containing the Ok value if the result is Ok, or a None if the result is Err.
+   * @returns {Promise<Option<T>>} A promise resolving to an Option containing the Ok value or a None.
+   * @method
+   * @example
+   * const option = await AsyncResult.Ok(42).ok(); // Returns: Option.Some(42)
+   */
+  ok(): Promise<Option<T>> {
+    return this.#promise.then((result) => result.ok());
+  }
+
+  /**
+   * Transforms the result into an Option containing the Err value if the result is Err, or a None if the result is Ok.
+   * @returns {Promise<Option<E>>} A promise resolving to an Option containing the Err value or a None.
+   * @method
+   * @example
+   * const option = await AsyncResult.Err("Error message").err(); // Returns: Option.Some("Error message")
+   */
+  err(): Promise<Option<E>> {
+    return this.#promise.then((result) => result.err());
+  }
+
+  /**
+   * Transforms the Ok value using the provided function if the result is Ok. If the result is Err, the error is kept.
+   * @param {(value: T) => Awaitable<U>} fn - The function to apply to the Ok value.
+   * @returns {AsyncResult<U, E>} A new AsyncResult containing the transformed Ok value or the original error.
+   * @method
+   * @template U - The type of the transformed Ok value.
+   * @example
+   * const mapped = AsyncResult.Ok(42).map(async (value) => value * 2); // Resolves to: Result.Ok(84)
+   */
+  map<U extends Defined>(fn: (value: T) => Awaitable<U>): AsyncResult<U, E> {
+    return this.#chain((result) =>
+      result.match<Awaitable<Result<U, E>>>(
+        async (value) => Ok(await fn(value)),
+        Err,
+      )
+    );
+  }
+
+  /**
+   * Transforms the Ok value using the provided function if the result is Ok. If the result is Err, returns a default value.
+   * @param {U} defaultValue - The default value to return if the result is Err.
+   * @param {(value: T) => Awaitable<U>} fn - The function to apply to the Ok value.
+   * @returns {Promise<U>} A promise resolving to the transformed Ok value or the default value.
+   * @method
+   * @template U - The type of the transformed Ok value.
+   * @example
+   * const value = await AsyncResult.Ok(42).mapOr(0, (value) => value * 2); // Returns: 84
+   */
+  mapOr<U extends Defined>(
+    defaultValue: U,
+    fn: (value: T) => Awaitable<U>,
+  ): Promise<U> {
+    return this.match(fn, () => defaultValue);
+  }
+
+  /**
+   * Transforms the Ok value using the provided function if the result is Ok. If the result is Err, evaluates a function to get a default value.
+   * @param {(error: E) => Awaitable<U>} defaultValue - The function to provide a default value if the result is Err.
+   * @param {(value: T) => Awaitable<U>} fn - The function to apply to the Ok value.
+   * @returns {Promise<U>} A promise resolving to the transformed Ok value or the computed default value.
+   * @method
+   * @template U - The type of the transformed Ok value.
+   * @example
+   * const value = await AsyncResult.Ok(42).mapOrElse(() => 0, (value) => value * 2); // Returns: 84
+   */
+  mapOrElse<U extends Defined>(
+    defaultValue: (error: E) => Awaitable<U>,
+    fn: (value: T) => Awaitable<U>,
+  ): Promise<U> {
+    return this.match(fn, defaultValue);
+  }
+
+  /**
+   * Transforms the Err value using the provided function if the result is Err. If the result is Ok, the value is kept.
+   * @param {(error: E) => Awaitable<F>} fn - The function to apply to the Err value.
+   * @returns {AsyncResult<T, F>} A new AsyncResult containing the original value or the transformed error.
+   * @method
+   * @template F - The type of the transformed Err value.
+   * @example
+   * const mapped = AsyncResult.Err("oops").mapErr((error) => new Error(error)); // Resolves to: Result.Err(Error("oops"))
+   */
+  mapErr<F extends Defined>(fn: (error: E) => Awaitable<F>): AsyncResult<T, F> {
+    return this.#chain((result) =>
+      result.match<Awaitable<Result<T, F>>>(
+        Ok,
+        async (error) => Err(await fn(error)),
+      )
+    );
+  }
+
+  /**
+   * Applies a function to the Ok value if the result is Ok, waiting for it to settle. If the result is Err, does nothing.
+   * @param {(value: T) => Awaitable<void>} fn - The function to apply to the Ok value.
+   * @returns {AsyncResult<T, E>} An AsyncResult resolving to the original result.
+   * @method
+   * @example
+   * AsyncResult.Ok(42).inspect((value) => console.log(value)); // Logs: 42
+   */
+  inspect(fn: (value: T) => Awaitable<void>): AsyncResult<T, E> {
+    return this.#chain(async (result) => {
+      await result.match(fn, () => void 0);
+      return result;
+    });
+  }
+
+  /**
+   * Applies a function to the Err value if the result is Err, waiting for it to settle. If the result is Ok, does nothing.
+   * @param {(error: E) => Awaitable<void>} fn - The function to apply to the Err value.
+   * @returns {AsyncResult<T, E>} An AsyncResult resolving to the original result.
+   * @method
+   * @example
+   * AsyncResult.Err("Error message").inspectErr((error) => console.error(error)); // Logs: Error message
+   */
+  inspectErr(fn: (error: E) => Awaitable<void>): AsyncResult<T, E> {
+    return this.#chain(async (result) => {
+      await result.match(() => void 0, fn);
+      return result;
+    });
+  }
+
+  /**
+   * Expects the result to be Ok and resolves to the Ok value. If the result is Err, rejects with an error with the specified message.
+   * @param {string} message - The error message to reject with if the result is Err.
+   * @returns {Promise<T>} A promise resolving to the Ok value.
+   * @method
+   * @example
+   * const value = await AsyncResult.Ok(42).expect("Expected the result to be Ok."); // Returns: 42
+   */
+  expect(message: string): Promise<T> {
+    return this.#promise.then((result) => result.expect(message));
+  }
+
+  /**
+   * Unwraps the Ok value if the result is Ok. If the result is Err, rejects with an error.
+   * @returns {Promise<T>} A promise resolving to the Ok value.
+   * @method
+   * @example
+   * const value = await AsyncResult.Ok(42).unwrap(); // Returns: 42
+   */
+  unwrap(): Promise<T> {
+    return this.#promise.then((result) => result.unwrap());
+  }
+
+  /**
+   * Expects the result to be Err and resolves to the Err value. If the result is Ok, rejects with an error with the specified message.
+   * @param {string} message - The error message to reject with if the result is Ok.
+   * @returns {Promise<E>} A promise resolving to the Err value.
+   * @method
+   * @example
+   * const error = await AsyncResult.Err("oops").expectErr("Expected the result to be Err."); // Returns: "oops"
+   */
+  expectErr(message: string): Promise<E> {
+    return this.#promise.then((result) => result.expectErr(message));
+  }
+
+  /**
+   * Unwraps the Err value if the result is Err. If the result is Ok, rejects with an error.
+   * @returns {Promise<E>} A promise resolving to the Err value.
+   * @method
+   * @example
+   * const error = await AsyncResult.Err("oops").unwrapErr(); // Returns: "oops"
+   */
+  unwrapErr(): Promise<E> {
+    return this.#promise.then((result) => result.unwrapErr());
+  }
+
+  /**
+   * Combines two results into a single result. If this result is Ok, returns the second result. If this result is Err, keeps the error.
+   * @param {Awaitable<Result<U, E>>} res - The second result, which may itself be asynchronous.
+   * @returns {AsyncResult<U, E>} The combined result.
+   * @method
+   * @template U - The type of the Ok value inside the second result.
+   * @example
+   * const result = AsyncResult.Ok(42).and(Result.Ok("Hello")); // Resolves to: Result.Ok("Hello")
+   */
+  and<U extends Defined>(res: Awaitable<Result<U, E>>): AsyncResult<U, E> {
+    return this.andThen(() => res);
+  }
+
+  /**
+   * Applies a function returning a (possibly asynchronous) result to the Ok value if the result is Ok. If the result is Err, keeps the error.
+   * @param {(value: T) => Awaitable<Result<U, E>>} fn - The function to apply to the Ok value.
+   * @returns {AsyncResult<U, E>} A new AsyncResult with the outcome of the function, or the original error.
+   * @method
+   * @template U - The type of the Ok value inside the new result.
+   * @example
+   * const user = fetchJson(url)
+   *   .andThen((json) => parseUser(json))           // returns Result<User, string>
+   *   .andThen((user) => saveUser(user));           // returns AsyncResult<User, string>
+   */
+  andThen<U extends Defined>(
+    fn: (value: T) => Awaitable<Result<U, E>>,
+  ): AsyncResult<U, E> {
+    return this.#chain((result) =>
+      result.match<Awaitable<Result<U, E>>>(fn, Err)
+    );
+  }
+
+  /**
+   * Combines two results into a single result. If this result is Ok, keeps the value. If this result is Err, returns the second result.
+   * @param {Awaitable<Result<T, F>>} res - The second result, which may itself be asynchronous.
+   * @returns {AsyncResult<T, F>} The combined result.
+   * @method
+   * @template F - The type of the Err value inside the second result.
+   * @example
+   * const result = AsyncResult.Err("oops").or(Result.Ok(42)); // Resolves to: Result.Ok(42)
+   */
+  or<F extends Defined>(res: Awaitable<Result<T, F>>): AsyncResult<T, F> {
+    return this.orElse(() => res);
+  }
+
+  /**
+   * Applies a function returning a (possibly asynchronous) result to the Err value if the result is Err. If the result is Ok, keeps the value.
+   * @param {(error: E) => Awaitable<Result<T, F>>} fn - The function to apply to the Err value.
+   * @returns {AsyncResult<T, F>} A new AsyncResult with the original value, or the outcome of the function.
+   * @method
+   * @template F - The type of the Err value inside the new result.
+   * @example
+   * const user = fetchUser(id).orElse(() => fetchCachedUser(id));
+   */
+  orElse<F extends Defined>(
+    fn: (error: E) => Awaitable<Result<T, F>>,
+  ): AsyncResult<T, F> {
+    return this.#chain((result) =>
+      result.match<Awaitable<Result<T, F>>>(Ok, fn)
+    );
+  }
+
+  /**
+   * Unwraps the Ok value if the result is Ok. If the result is Err, resolves to a default value.
+   * @param {T} defaultValue - The default value to resolve to if the result is Err.
+   * @returns {Promise<T>} A promise resolving to the Ok value or the default value.
+   * @method
+   * @example
+   * const value = await AsyncResult.Err("oops").unwrapOr(0); // Returns: 0
+   */
+  unwrapOr(defaultValue: T): Promise<T> {
+    return this.#promise.then((result) => result.unwrapOr(defaultValue));
+  }
+
+  /**
+   * Unwraps the Ok value if the result is Ok. If the result is Err, evaluates a function to get a default value.
+   * @param {(error: E) => Awaitable<T>} fn - The function to provide a default value if the result is Err.
+   * @returns {Promise<T>} A promise resolving to the Ok value or the computed default value.
+   * @method
+   * @example
+   * const value = await AsyncResult.Err("oops").unwrapOrElse((error) => error.length); // Returns: 4
+   */
+  unwrapOrElse(fn: (error: E) => Awaitable<T>): Promise<T> {
+    return this.match((value) => value, fn);
+  }
+
+  /**
+   * Recovers from one specific tagged error. If the result is Err and its error has the given `_tag`, applies the
+   * provided function to it. Any other error keeps propagating, with the handled variant removed from its type.
+   * @param {K} tag - The `_tag` of the error variant to recover from.
+   * @param {(error: Extract<E, Tagged<K>>) => Awaitable<Result<U, F>>} fn - The function to apply to the matching error.
+   * @returns {AsyncResult<T | U, Exclude<E, Tagged<K>> | F>} An AsyncResult with the original result, or the outcome of the function for the matching error.
+   * @method
+   * @template K - The tag of the handled error variant.
+   * @template U - The type of the Ok value returned by the handler.
+   * @template F - The type of the Err error returned by the handler.
+   * @example
+   * const user = fetchUser(id) // AsyncResult<User, NotFound | Forbidden>
+   *   .catchTag("NotFound", () => fetchGuestUser()); // AsyncResult<User, Forbidden>
+   */
+  catchTag<K extends TagOf<E>, U extends Defined, F extends Defined = never>(
+    tag: K,
+    fn: (error: Extract<E, Tagged<K>>) => Awaitable<Result<U, F>>,
+  ): AsyncResult<T | U, Exclude<E, Tagged<K>> | F> {
+    return this.#chain((result) =>
+      result.match<Awaitable<Result<T | U, Exclude<E, Tagged<K>> | F>>>(
+        Ok,
+        (error) =>
+          isTagged(error, tag)
+            ? fn(error as Extract<E, Tagged<K>>)
+            : Err(error as Exclude<E, Tagged<K>>),
+      )
+    );
+  }
+
+  /**
+   * Matches the result, applying onOk if the result is Ok, or the handler registered for the `_tag` of the error if the result is Err.
+   * Every error variant must have a handler, so adding a variant to `E` is a compile-time error until it is handled.
+   * @param {(value: T) => Awaitable<U>} onOk - The function to apply if the result is Ok.
+   * @param {{ [K in TagOf<E>]: (error: Extract<E, Tagged<K>>) => Awaitable<U> }} handlers - The functions to apply to each error variant, keyed by tag.
+   * @returns {Promise<U>} A promise resolving to the result of applying the appropriate function.
+   * @method
+   * @template U - The type of the result returned by the functions.
+   * @example
+   * const status = await fetchUser(id).matchTag((user) => 200, {
+   *   NotFound: () => 404,
+   *   Forbidden: () => 403,
+   * });
+   */
+  matchTag<U>(
+    onOk: (value: T) => Awaitable<U>,
+    handlers: {
+      [K in TagOf<E>]: (error: Extract<E, Tagged<K>>) => Awaitable<U>;
+    },
+  ): Promise<U> {
+    return this.#promise.then((result) =>
+      result.matchTag<Awaitable<U>>(onOk, handlers)
+    );
+  }
+
+  #chain<U extends Defined, F extends Defined>(
+    fn: (result: Result<T, E>) => Awaitable<Result<U, F>>,
+  ): AsyncResult<U, F> {
+    return new AsyncResult(this.#promise.then(fn));
+  }
+}
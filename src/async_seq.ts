@@ -0,0 +1,300 @@
+import { AsyncResult } from "./async_result.ts";
+import { List } from "./list.ts";
+import { Result } from "./result.ts";
+import { Awaitable, Defined } from "./types.ts";
+import { raise } from "./util.ts";
+
+/**
+ * Options controlling how an async callback is run over the elements of an AsyncSeq.
+ */
+export type AsyncOptions = {
+  /** The maximum number of callbacks running at the same time, a positive integer. Default is 1. */
+  concurrency?: number;
+  /** Whether results keep the order of the source (true) or follow completion order (false). Default is true. */
+  ordered?: boolean;
+  /** A signal that stops the iteration and rejects with its reason once aborted. */
+  signal?: AbortSignal;
+};
+
+/**
+ * A lazy sequence over an async source, such as paginated API results or the lines of a file.
+ * Operations are recorded when chained and run once a terminal operation (such as `toList`) pulls the elements.
+ * Async callbacks run one at a time unless a `concurrency` limit is given.
+ */
+export class AsyncSeq<T extends Defined> implements AsyncIterable<T> {
+  #source: () => AsyncIterator<T>;
+
+  private constructor(source: () => AsyncIterator<T>) {
+    this.#source = source;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.#source();
+  }
+
+  /**
+   * Creates an empty AsyncSeq.
+   *
+   * @template T - The type of elements in the AsyncSeq.
+   * @returns {AsyncSeq<T>} A new AsyncSeq with no elements.
+   *
+   * @example
+   * const empty = AsyncSeq.empty<number>();
+   */
+  static empty<T extends Defined>(): AsyncSeq<T> {
+    return AsyncSeq.from([]);
+  }
+
+  /**
+   * Creates a new AsyncSeq from the provided elements, which may be promises.
+   *
+   * @template T - The type of elements in the AsyncSeq.
+   * @param {...Awaitable<T>[]} items - The elements to include in the new AsyncSeq.
+   * @returns {AsyncSeq<T>} A new AsyncSeq containing the provided elements.
+   *
+   * @example
+   * const numbers = AsyncSeq.of(1, Promise.resolve(2), 3);
+   */
+  static of<T extends Defined>(...items: readonly Awaitable<T>[]): AsyncSeq<T> {
+    return AsyncSeq.from(items);
+  }
+
+  /**
+   * Creates a new AsyncSeq from an async iterable, or from a sync iterable of values or promises.
+   *
+   * @template T - The type of elements in the AsyncSeq.
+   * @param {AsyncIterable<T> | Iterable<Awaitable<T>>} iterable - The iterable to read elements from.
+   * @returns {AsyncSeq<T>} A new AsyncSeq reading from the iterable.
+   *
+   * @example
+   * async function* pages() {
+   *   yield* await fetchPage(1);
+   *   yield* await fetchPage(2);
+   * }
+   *
+   * const users = await AsyncSeq.from(pages()).toList();
+   */
+  static from<T extends Defined>(
+    iterable: AsyncIterable<T> | Iterable<Awaitable<T>>,
+  ): AsyncSeq<T> {
+    return new AsyncSeq(async function* () {
+      yield* iterable;
+    });
+  }
+
+  /**
+   * Creates a new AsyncSeq by applying an async function to each element.
+   *
+   * @template U - The type of elements in the new AsyncSeq.
+   * @param {(item: T, index: number) => Awaitable<U>} fn - A function that transforms each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {AsyncSeq<U>} A new AsyncSeq with the transformed elements.
+   * It rejects with a RangeError once iterated if the concurrency is not a positive integer.
+   *
+   * @example
+   * const users = AsyncSeq.from(ids).mapAsync((id) => fetchUser(id), { concurrency: 4 });
+   */
+  mapAsync<U extends Defined>(
+    fn: (item: T, index: number) => Awaitable<U>,
+    options?: AsyncOptions,
+  ): AsyncSeq<U> {
+    return this.#pipe((source) => pool(source, fn, options));
+  }
+
+  /**
+   * Creates a new AsyncSeq with the elements that satisfy an async predicate.
+   *
+   * @param {(item: T, index: number) => Awaitable<boolean>} predicate - A function that tests each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {AsyncSeq<T>} A new AsyncSeq with the elements that satisfy the predicate.
+   * It rejects with a RangeError once iterated if the concurrency is not a positive integer.
+   *
+   * @example
+   * const active = AsyncSeq.from(users).filterAsync((user) => isActive(user.id), { concurrency: 4 });
+   */
+  filterAsync(
+    predicate: (item: T, index: number) => Awaitable<boolean>,
+    options?: AsyncOptions,
+  ): AsyncSeq<T> {
+    return this.#pipe(async function* (source) {
+      const tested = pool(
+        source,
+        async (item, index) => [item, await predicate(item, index)] as const,
+        options,
+      );
+      for await (const [item, keep] of tested) {
+        if (keep) yield item;
+      }
+    });
+  }
+
+  /**
+   * Creates a new AsyncSeq with at most the given number of elements from the beginning.
+   * The source is not read past the last taken element.
+   *
+   * @param {number} count - The number of elements to take.
+   * @returns {AsyncSeq<T>} A new AsyncSeq with the first elements.
+   * @throws {RangeError} If the count is NaN.
+   *
+   * @example
+   * const firstTen = AsyncSeq.from(lines).take(10);
+   */
+  take(count: number): AsyncSeq<T> {
+    if (Number.isNaN(count)) raise(new RangeError(`Invalid count : ${count}`));
+    return this.#pipe(async function* (source) {
+      if (count <= 0) return;
+      let taken = 0;
+      for await (const item of source) {
+        yield item;
+        if (++taken >= count) return;
+      }
+    });
+  }
+
+  /**
+   * Runs an async function for each element and waits until all of them have finished.
+   *
+   * @param {(item: T, index: number) => Awaitable<void>} fn - The function to run for each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {Promise<void>} A promise that resolves once every element was handled, or rejects with the first failure.
+   * It rejects with a RangeError if the concurrency is not a positive integer.
+   *
+   * @example
+   * await AsyncSeq.from(files).forEachAsync((file) => upload(file), { concurrency: 2 });
+   */
+  async forEachAsync(
+    fn: (item: T, index: number) => Awaitable<void>,
+    options?: AsyncOptions,
+  ): Promise<void> {
+    const handled = pool(this, async (item, index) => {
+      await fn(item, index);
+      return true;
+    }, { ordered: false, ...options });
+    for await (const _ of handled);
+  }
+
+  /**
+   * Collects the elements of the AsyncSeq into an array.
+   *
+   * @returns {Promise<T[]>} A promise resolving to a new array with the elements of the AsyncSeq.
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Collects the elements of the AsyncSeq into a List.
+   *
+   * @returns {Promise<List<T>>} A promise resolving to a new List, or rejecting when a callback fails.
+   *
+   * @example
+   * const list = await AsyncSeq.of(1, 2, 3).mapAsync((n) => n * 2).toList();  // List [2, 4, 6]
+   */
+  async toList(): Promise<List<T>> {
+    return List.from(await this.toArray());
+  }
+
+  /**
+   * Collects the elements of the AsyncSeq into a List wrapped in an AsyncResult.
+   * A failing callback, source or abort signal becomes Err instead of a rejected promise.
+   *
+   * @returns {AsyncResult<List<T>, Error>} An AsyncResult resolving to Ok with the List, or Err with the failure.
+   *
+   * @example
+   * const users = await AsyncSeq.from(ids).mapAsync(fetchUser).toResult(); // Result<List<User>, Error>
+   */
+  toResult(): AsyncResult<List<T>, Error>;
+
+  /**
+   * Collects the elements of the AsyncSeq into a List wrapped in an AsyncResult, mapping the failure into a typed error.
+   *
+   * @template E - The type of the mapped error.
+   * @param {(cause: unknown) => E} mapErr - A function converting the failure into a typed error.
+   * @returns {AsyncResult<List<T>, E>} An AsyncResult resolving to Ok with the List, or Err with the mapped failure.
+   */
+  toResult<E extends Defined>(
+    mapErr: (cause: unknown) => E,
+  ): AsyncResult<List<T>, E>;
+  toResult<E extends Defined>(
+    mapErr?: (cause: unknown) => E,
+  ): AsyncResult<List<T>, E | Error> {
+    return mapErr
+      ? Result.fromPromise(this.toList(), mapErr)
+      : Result.fromPromise(this.toList());
+  }
+
+  #pipe<U extends Defined>(
+    fn: (source: AsyncIterable<T>) => AsyncGenerator<U, void, undefined>,
+  ): AsyncSeq<U> {
+    return new AsyncSeq(() => fn(this));
+  }
+}
+
+async function* pool<T, U>(
+  source: AsyncIterable<T>,
+  fn: (item: T, index: number) => Awaitable<U>,
+  { concurrency: limit = 1, ordered = true, signal }: AsyncOptions = {},
+): AsyncGenerator<U, void, undefined> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    raise(new RangeError(`Invalid concurrency : ${limit}`));
+  }
+  const iterator = source[Symbol.asyncIterator]();
+  const running = new Map<number, Promise<[number, U]>>();
+  const settled = new Map<number, U>();
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal?.reason);
+  });
+  signal?.addEventListener("abort", onAbort, { once: true });
+  aborted.catch(() => {});
+  let exhausted = false;
+  let started = 0;
+  let next = 0;
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      // In ordered mode, finished results waiting for an earlier element count towards the limit.
+      while (!exhausted && running.size + settled.size < limit) {
+        const step = await Promise.race([iterator.next(), aborted]);
+        if (step.done) {
+          exhausted = true;
+          break;
+        }
+        const index = started++;
+        const task = Promise.resolve(fn(step.value, index)).then((
+          value,
+        ): [number, U] => [index, value]);
+        task.catch(() => {});
+        running.set(index, task);
+      }
+      if (running.size === 0) return;
+
+      const [index, value] = await Promise.race([...running.values(), aborted]);
+      running.delete(index);
+      if (!ordered) {
+        yield value;
+        continue;
+      }
+      settled.set(index, value);
+      while (settled.has(next)) {
+        const value = settled.get(next)!;
+        settled.delete(next++);
+        yield value;
+      }
+    }
+  } finally {
+    try {
+      // An async generator only returns once its pending `next` settles, which a stalled source may never do.
+      const closed = Promise.resolve(iterator.return?.());
+      closed.catch(() => {});
+      if (!signal?.aborted) await Promise.race([closed, aborted]);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import { Hamt } from "./hamt.ts";
+import { List } from "./list.ts";
+import { Option } from "./option.ts";
+import { Defined } from "./types.ts";
+import { isFunction } from "./util.ts";
+
+/**
+ * An immutable map from keys to values. Updates return a new Dict sharing its structure with the original one.
+ * Keys are compared by value with `equals`, so equal tuples, dates, Options or Lists address the same entry.
+ * Unlike a Map, a Dict does not remember the order entries were added in: iteration, `keys`, `values` and `toList`
+ * follow the hashes of the keys, an order that is otherwise unspecified.
+ */
+export class Dict<K extends Defined, V extends Defined>
+  implements Iterable<[K, V]> {
+  #hamt: Hamt<K, V>;
+
+  private constructor(hamt: Hamt<K, V>) {
+    this.#hamt = hamt;
+  }
+
+  [Symbol.iterator](): Iterator<[K, V]> {
+    return this.#hamt[Symbol.iterator]();
+  }
+
+  /**
+   * Creates an empty Dict.
+   *
+   * @template K - The type of keys in the Dict.
+   * @template V - The type of values in the Dict.
+   * @returns {Dict<K, V>} A new Dict with no entries.
+   *
+   * @example
+   * const scores = Dict.empty<string, number>();
+   */
+  static empty<K extends Defined, V extends Defined>(): Dict<K, V> {
+    return new Dict(Hamt.empty());
+  }
+
+  /**
+   * Creates a new Dict from the provided entries.
+   *
+   * @template K - The type of keys in the Dict.
+   * @template V - The type of values in the Dict.
+   * @param {...[K, V][]} entries - The key-value pairs to include in the new Dict.
+   * @returns {Dict<K, V>} A new Dict containing the provided entries.
+   *
+   * @example
+   * const scores = Dict.of(["alice", 10], ["bob", 7]);
+   */
+  static of<K extends Defined, V extends Defined>(
+    ...entries: readonly (readonly [K, V])[]
+  ): Dict<K, V> {
+    return Dict.from(entries);
+  }
+
+  /**
+   * Creates a new Dict from an iterable of entries, such as a native Map or a List of pairs.
+   * When a key appears more than once, the last value wins.
+   *
+   * @template K - The type of keys in the Dict.
+   * @template V - The type of values in the Dict.
+   * @param {Iterable<readonly [K, V]>} entries - The key-value pairs to include in the new Dict.
+   * @returns {Dict<K, V>} A new Dict containing the entries.
+   *
+   * @example
+   * const fromMap = Dict.from(new Map([["alice", 10]]));
+   * const fromList = Dict.from(List.of(["bob", 7] as const));
+   */
+  static from<K extends Defined, V extends Defined>(
+    entries: Iterable<readonly [K, V]>,
+  ): Dict<K, V> {
+    return new Dict(Hamt.from(entries));
+  }
+
+  /**
+   * Creates a new Dict from the own enumerable properties of a record.
+   *
+   * @template K - The type of keys in the record.
+   * @template V - The type of values in the record.
+   * @param {Record<K, V>} record - The record to read entries from.
+   * @returns {Dict<K, V>} A new Dict containing the properties of the record.
+   *
+   * @example
+   * const scores = Dict.fromRecord({ alice: 10, bob: 7 });
+   */
+  static fromRecord<K extends string, V extends Defined>(
+    record: Readonly<Record<K, V>>,
+  ): Dict<K, V> {
+    return Dict.from(Object.entries(record) as [K, V][]);
+  }
+
+  /**
+   * The number of entries in the Dict.
+   */
+  get size(): number {
+    return this.#hamt.size;
+  }
+
+  /**
+   * Retrieves the value of a key.
+   *
+   * @param {K} key - The key to look up.
+   * @returns {Option<V>} An Option containing the value, or None if the key is missing.
+   *
+   * @example
+   * const scores = Dict.of(["alice", 10]);
+   *
+   * scores.get("alice");  // Some(10)
+   * scores.get("bob");  // None
+   */
+  get(key: K): Option<V> {
+    return Option.from(this.#hamt.get(key));
+  }
+
+  /**
+   * Checks if the Dict contains a key.
+   *
+   * @param {K} key - The key to look up.
+   * @returns {boolean} true if the key is present, false otherwise.
+   */
+  has(key: K): boolean {
+    return this.#hamt.has(key);
+  }
+
+  /**
+   * Returns a new Dict with the value of a key set, replacing any previous value.
+   *
+   * @param {K} key - The key to set.
+   * @param {V} value - The value of the key.
+   * @returns {Dict<K, V>} A new Dict with the key set.
+   *
+   * @example
+   * const scores = Dict.of(["alice", 10]);
+   * const updated = scores.set("bob", 7);
+   *
+   * console.log(scores.size);  // 1
+   * console.log(updated.size);  // 2
+   */
+  set(key: K, value: V): Dict<K, V> {
+    return this.#wrap(this.#hamt.set(key, value));
+  }
+
+  /**
+   * Returns a new Dict without the given key.
+   *
+   * @param {K} key - The key to remove.
+   * @returns {Dict<K, V>} A new Dict without the key, or the original Dict if the key is missing.
+   *
+   * @example
+   * const scores = Dict.of(["alice", 10], ["bob", 7]);
+   *
+   * scores.delete("bob").toRecord();  // { alice: 10 }
+   */
+  delete(key: K): Dict<K, V> {
+    return this.#wrap(this.#hamt.delete(key));
+  }
+
+  /**
+   * Returns a new Dict with the value of a key updated based on the provided function.
+   *
+   * @param {K} key - The key to update.
+   * @param {(prev: V) => V} fn - The function that takes the current value and returns the updated value.
+   * @returns {Dict<K, V>} A new Dict with the updated value, or the original Dict if the key is missing.
+   *
+   * @example
+   * const scores = Dict.of(["alice", 10]);
+   *
+   * scores.update("alice", (score) => score + 1).get("alice");  // Some(11)
+   */
+  update(key: K, fn: (prev: V) => V): Dict<K, V> {
+    return this.get(key).match(
+      (value) => this.set(key, fn(value)),
+      () => this,
+    );
+  }
+
+  /**
+   * Merges the entries of another Dict into this one. Without a resolver, the values of the other Dict win.
+   *
+   * @param {Dict<K, V>} other - The Dict to merge in.
+   * @param {(current: V, incoming: V, key: K) => V} [resolve] - A function deciding the value of keys present in both Dicts.
+   * @returns {Dict<K, V>} A new Dict with the entries of both Dicts.
+   *
+   * @example
+   * const morning = Dict.of(["alice", 10], ["bob", 7]);
+   * const evening = Dict.of(["bob", 3], ["carol", 5]);
+   *
+   * morning.merge(evening).toRecord();  // { alice: 10, bob: 3, carol: 5 }
+   * morning.merge(evening, (a, b) => a + b).toRecord();  // { alice: 10, bob: 10, carol: 5 }
+   */
+  merge(
+    other: Dict<K, V>,
+    resolve?: (current: V, incoming: V, key: K) => V,
+  ): Dict<K, V> {
+    let hamt = this.#hamt;
+    for (const [key, incoming] of other) {
+      const current = hamt.get(key);
+      hamt = hamt.set(
+        key,
+        current !== undefined && isFunction(resolve)
+          ? resolve(current, incoming, key)
+          : incoming,
+      );
+    }
+    return this.#wrap(hamt);
+  }
+
+  /**
+   * Creates a new Dict by applying a function to each value.
+   *
+   * @template U - The type of values in the new Dict.
+   * @param {(value: V, key: K) => U} fn - A function that transforms each value along with its key.
+   * @returns {Dict<K, U>} A new Dict with the same keys and the transformed values.
+   *
+   * @example
+   * Dict.of(["alice", 10]).map((score) => score * 2).get("alice");  // Some(20)
+   */
+  map<U extends Defined>(fn: (value: V, key: K) => U): Dict<K, U> {
+    const entries: [K, U][] = [];
+    for (const [key, value] of this) {
+      entries.push([key, fn(value, key)]);
+    }
+    return Dict.from(entries);
+  }
+
+  /**
+   * Creates a new Dict with the entries that satisfy the provided predicate.
+   *
+   * @param {(value: V, key: K) => boolean} predicate - A function that tests each value along with its key.
+   * @returns {Dict<K, V>} A new Dict with the entries that satisfy the predicate.
+   *
+   * @example
+   * Dict.of(["alice", 10], ["bob", 7]).filter((score) => score > 8).keys();  // List ['alice']
+   */
+  filter(predicate: (value: V, key: K) => boolean): Dict<K, V> {
+    let hamt = this.#hamt;
+    for (const [key, value] of this) {
+      if (!predicate(value, key)) hamt = hamt.delete(key);
+    }
+    return this.#wrap(hamt);
+  }
+
+  /**
+   * Retrieves the keys of the Dict.
+   *
+   * @returns {List<K>} A List with the keys of the Dict.
+   */
+  keys(): List<K> {
+    return this.toList().map(([key]) => key);
+  }
+
+  /**
+   * Retrieves the values of the Dict.
+   *
+   * @returns {List<V>} A List with the values of the Dict.
+   */
+  values(): List<V> {
+    return this.toList().map(([, value]) => value);
+  }
+
+  /**
+   * Converts the Dict to a List of key-value pairs.
+   *
+   * @returns {List<[K, V]>} A List with the entries of the Dict.
+   *
+   * @example
+   * Dict.of(["alice", 10]).toList();  // List [['alice', 10]]
+   */
+  toList(): List<[K, V]> {
+    return List.from(this);
+  }
+
+  /**
+   * Converts the Dict to a native Map.
+   *
+   * @returns {Map<K, V>} A new Map with the entries of the Dict.
+   */
+  toMap(): Map<K, V> {
+    return new Map(this);
+  }
+
+  /**
+   * Converts a Dict with property keys to a record.
+   *
+   * @returns {Record<P, V>} A new record with the entries of the Dict.
+   *
+   * @example
+   * Dict.of(["alice", 10], ["bob", 7]).toRecord();  // { alice: 10, bob: 7 }
+   */
+  toRecord<P extends PropertyKey>(this: Dict<P, V>): Record<P, V> {
+    const record = Object.create(null) as Record<P, V>;
+    for (const [key, value] of this) {
+      record[key] = value;
+    }
+    return record;
+  }
+
+  /**
+   * Converts the Dict to its JSON representation, which is an array of key-value pairs.
+   *
+   * @returns {[K, V][]} An array with the entries of the Dict.
+   */
+  toJSON(): [K, V][] {
+    return Array.from(this);
+  }
+
+  #wrap(hamt: Hamt<K, V>): Dict<K, V> {
+    return hamt === this.#hamt ? this : new Dict(hamt);
+  }
+}
@@ -0,0 +1,148 @@
+import { isArray, isDate, isFunction, isObject } from "./util.ts";
+
+/**
+ * The symbol of the method comparing a value with another one. Implement it together with `Hash`.
+ */
+export const Equals: unique symbol = Symbol.for("footgun/equals");
+
+/**
+ * The symbol of the method computing the hash of a value. Values that are equal must have the same hash.
+ */
+export const Hash: unique symbol = Symbol.for("footgun/hash");
+
+/**
+ * Represents a value that defines its own equality and hash, used by `equals`, `hash` and the collections.
+ * @example
+ * class Point implements Equatable {
+ *   constructor(readonly x: number, readonly y: number) {}
+ *   [Equals](other: unknown) {
+ *     return other instanceof Point && other.x === this.x && other.y === this.y;
+ *   }
+ *   [Hash]() {
+ *     return hash([this.x, this.y]);
+ *   }
+ * }
+ */
+export interface Equatable {
+  [Equals](other: unknown): boolean;
+  [Hash](): number;
+}
+
+/**
+ * Checks if the given input implements the `Equals` and `Hash` protocol.
+ * @param {unknown} input - The input to check.
+ * @returns {boolean} true if the input is equatable, false otherwise.
+ * @function
+ */
+export function isEquatable(input: unknown): input is Equatable {
+  if (typeof input !== "object" || input === null) return false;
+  return Equals in input && isFunction(input[Equals]) &&
+    Hash in input && isFunction(input[Hash]);
+}
+
+/**
+ * Checks if two values are equal. Equatable values use their `Equals` method, arrays and plain objects are
+ * compared structurally, dates by their time, and any other value with SameValueZero.
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} true if the values are equal, false otherwise.
+ * @function
+ * @example
+ * equals([1, { a: Some(2) }], [1, { a: Some(2) }]); // true
+ * equals(new Date(0), new Date(0)); // true
+ * equals(NaN, NaN); // true
+ */
+export function equals(a: unknown, b: unknown): boolean {
+  if (a === b || (a !== a && b !== b)) return true;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if (a === null || b === null) return false;
+  if (isEquatable(a)) return a[Equals](b);
+  if (isDate(a)) return isDate(b) && equals(a.getTime(), b.getTime());
+  if (isArray(a)) {
+    return isArray(b) && a.length === b.length &&
+      a.every((item, index) => equals(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && equals(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Computes a 32-bit hash of a value, consistent with `equals`: equal values always have the same hash.
+ * Objects that are neither equatable, arrays, plain objects nor dates are hashed by identity.
+ * @param {unknown} value - The value to hash.
+ * @returns {number} The hash of the value.
+ * @function
+ * @example
+ * hash([1, 2]) === hash([1, 2]); // true
+ * hash(Some("a")) === hash(Some("a")); // true
+ */
+export function hash(value: unknown): number {
+  switch (typeof value) {
+    case "string":
+      return hashString(value);
+    case "number":
+      return hashString(String(value));
+    case "bigint":
+      return hashString(`${value}n`);
+    case "boolean":
+      return value ? 1 : 2;
+    case "undefined":
+      return 3;
+    case "symbol":
+      // Hashing by key or description keeps no reference to the symbol. Distinct symbols sharing one only collide.
+      return hashString(
+        `symbol:${Symbol.keyFor(value) ?? value.description ?? ""}`,
+      );
+    case "function":
+      return hashIdentity(value);
+  }
+  if (value === null) return 4;
+  if (isEquatable(value)) return value[Hash]() >>> 0;
+  if (isDate(value)) return hash(value.getTime());
+  if (isArray(value)) {
+    return value.reduce<number>(
+      (acc, item) => combine(acc, hash(item)),
+      hashString("array"),
+    );
+  }
+  if (isObject(value)) {
+    // Keys are added up so the hash does not depend on their order, like `equals`.
+    let sum = hashString("object");
+    for (const key of Object.keys(value)) {
+      sum = (sum + combine(hashString(key), hash(value[key]))) >>> 0;
+    }
+    return sum;
+  }
+  return hashIdentity(value as object);
+}
+
+const ids = new WeakMap<object, number>();
+let nextId = 0;
+
+function hashIdentity(value: object): number {
+  if (!ids.has(value)) ids.set(value, nextId++);
+  return mix(ids.get(value)!);
+}
+
+function hashString(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h = Math.imul(h ^ input.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Spreads sequential identifiers over the whole 32-bit range.
+function mix(input: number): number {
+  let h = Math.imul(input ^ (input >>> 16), 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function combine(seed: number, value: number): number {
+  return mix((Math.imul(seed, 31) + value) | 0);
+}
@@ -0,0 +1,86 @@
+import { PlainObject } from "./types.ts";
+import { isString } from "./util.ts";
+
+/**
+ * Represents a value discriminated by a string `_tag` property.
+ */
+export type Tagged<Tag extends string = string> = { readonly _tag: Tag };
+
+/**
+ * Extracts the union of `_tag` literals from a union of tagged values.
+ */
+export type TagOf<E> = E extends Tagged<infer K extends string> ? K : never;
+
+/**
+ * The options accepted by every tagged error in addition to its own fields.
+ */
+export type TaggedErrorOptions = {
+  message?: string;
+  cause?: unknown;
+};
+
+/**
+ * Represents an Error instance discriminated by its `_tag`.
+ * @template Tag - The literal tag of the error.
+ */
+export interface TaggedError<Tag extends string> extends Error, Tagged<Tag> {}
+
+/**
+ * The constructor returned by `TaggedError`. It accepts the typed fields of the error
+ * together with an optional `message` and `cause`.
+ * @template Tag - The literal tag of the errors it constructs.
+ */
+export interface TaggedErrorConstructor<Tag extends string> {
+  // deno-lint-ignore ban-types
+  new <Fields extends PlainObject = {}>(
+    ...args: keyof Fields extends never ? [options?: TaggedErrorOptions]
+      : [fields: Fields & TaggedErrorOptions]
+  ): TaggedError<Tag> & Readonly<Fields>;
+  readonly prototype: TaggedError<Tag>;
+}
+
+/**
+ * Creates a base class for errors discriminated by the given tag. Extend it with the typed fields of the error.
+ * The message defaults to the tag, the `name` of the error is the tag.
+ * @param {Tag} tag - The literal tag of the error.
+ * @returns {TaggedErrorConstructor<Tag>} A base class for the tagged error.
+ * @template Tag - The literal tag of the error.
+ * @function
+ * @example
+ * class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+ * class Forbidden extends TaggedError("Forbidden") {}
+ *
+ * const error = new NotFound({ id: "42", message: "User not found" });
+ * console.log(error._tag, error.id, error.message); // NotFound 42 User not found
+ */
+export function TaggedError<Tag extends string>(
+  tag: Tag,
+): TaggedErrorConstructor<Tag> {
+  class TaggedErrorBase extends Error {
+    readonly _tag: Tag = tag;
+
+    constructor(fields: PlainObject & TaggedErrorOptions = {}) {
+      const { message, cause, ...rest } = fields;
+      super(message ?? tag, "cause" in fields ? { cause } : undefined);
+      this.name = tag;
+      Object.assign(this, rest);
+    }
+  }
+  return TaggedErrorBase as unknown as TaggedErrorConstructor<Tag>;
+}
+
+/**
+ * Checks if the given input is a tagged value, optionally with a specific tag.
+ * @param {unknown} input - The input to check.
+ * @param {string} [tag] - The tag the input must have.
+ * @returns {boolean} true if the input has a string `_tag` (equal to `tag` when given), false otherwise.
+ * @function
+ */
+export function isTagged<Tag extends string = string>(
+  input: unknown,
+  tag?: Tag,
+): input is Tagged<Tag> {
+  if (typeof input !== "object" || input === null) return false;
+  if (!("_tag" in input) || !isString(input._tag)) return false;
+  return isString(tag) ? input._tag === tag : true;
+}
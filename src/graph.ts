@@ -0,0 +1,67 @@
+import { Dict } from "./dict.ts";
+import { equals } from "./equal.ts";
+import { TaggedError } from "./error.ts";
+import { List } from "./list.ts";
+import { Err, Ok, Result } from "./result.ts";
+import { Defined } from "./types.ts";
+
+/**
+ * The error of `topoSort` when the dependencies form a cycle. `path` lists the nodes of the cycle,
+ * starting and ending with the same node.
+ * @template T - The type of the nodes.
+ */
+export class Cycle<T extends Defined>
+  extends TaggedError("Cycle")<{ path: List<T> }> {}
+
+/**
+ * Sorts nodes so that every node comes after the nodes it depends on (topological sort).
+ * Nodes are compared by value with `equals`. Dependencies missing from `nodes` are sorted along with them.
+ * Nodes without dependencies between them keep their order.
+ * @param {Iterable<T>} nodes - The nodes to sort.
+ * @param {(node: T) => Iterable<T>} dependencies - A function returning the nodes a node depends on.
+ * @returns {Result<List<T>, Cycle<T>>} Ok with the sorted nodes, or Err with the first cycle found.
+ * @function
+ * @example
+ * const packages = { app: ["http", "log"], http: ["log"], log: [] };
+ *
+ * Graph.topoSort(Object.keys(packages), (name) => packages[name]); // Ok(List ['log', 'http', 'app'])
+ * Graph.topoSort(["a", "b"], (name) => name === "a" ? ["b"] : ["a"]); // Err(Cycle { path: List ['a', 'b', 'a'] })
+ */
+export function topoSort<T extends Defined>(
+  nodes: Iterable<T>,
+  dependencies: (node: T) => Iterable<T>,
+): Result<List<T>, Cycle<T>> {
+  // Nodes being visited are on the stack, visited nodes are already sorted.
+  let visited = Dict.empty<T, "visiting" | "visited">();
+  const sorted: T[] = [];
+  for (const root of nodes) {
+    if (visited.has(root)) continue;
+    visited = visited.set(root, "visiting");
+    const stack = [{
+      node: root,
+      pending: dependencies(root)[Symbol.iterator](),
+    }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const next = frame.pending.next();
+      if (next.done) {
+        stack.pop();
+        visited = visited.set(frame.node, "visited");
+        sorted.push(frame.node);
+        continue;
+      }
+      const node = next.value;
+      const state = visited.get(node);
+      if (state.isSome()) {
+        if (state.unwrap() === "visited") continue;
+        const start = stack.findIndex((other) => equals(other.node, node));
+        const path = List.from(stack.slice(start).map((other) => other.node))
+          .append(node);
+        return Err(new Cycle<T>({ path, message: "Dependency cycle" }));
+      }
+      visited = visited.set(node, "visiting");
+      stack.push({ node, pending: dependencies(node)[Symbol.iterator]() });
+    }
+  }
+  return Ok(List.from(sorted));
+}
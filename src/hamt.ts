@@ -0,0 +1,255 @@
+import { equals, hash } from "./equal.ts";
+
+const BITS = 5;
+const MASK = (1 << BITS) - 1;
+
+type Leaf<K, V> = {
+  readonly type: "leaf";
+  readonly hash: number;
+  readonly key: K;
+  readonly value: V;
+};
+
+// Holds the entries whose keys are different but share the same hash.
+type Collision<K, V> = {
+  readonly type: "collision";
+  readonly hash: number;
+  readonly leaves: readonly Leaf<K, V>[];
+};
+
+// Holds up to 32 children, one for each 5-bit fragment of the hash set in the bitmap.
+type Branch<K, V> = {
+  readonly type: "branch";
+  readonly bitmap: number;
+  readonly children: readonly Node<K, V>[];
+};
+
+type Node<K, V> = Leaf<K, V> | Collision<K, V> | Branch<K, V>;
+
+/**
+ * An immutable hash array mapped trie, used as the storage of Dict and HashSet.
+ * Looking up, adding and removing a key run in O(log32 n) and share every untouched node with the original Hamt.
+ * Keys are compared with `equals` and hashed with `hash`.
+ * @internal
+ */
+export class Hamt<K, V> implements Iterable<[K, V]> {
+  static #empty = new Hamt<never, never>(undefined, 0);
+
+  #root: Node<K, V> | undefined;
+  #size: number;
+
+  private constructor(root: Node<K, V> | undefined, size: number) {
+    this.#root = root;
+    this.#size = size;
+  }
+
+  /**
+   * Creates an empty Hamt.
+   * @returns {Hamt<K, V>} The empty Hamt.
+   */
+  static empty<K, V>(): Hamt<K, V> {
+    return Hamt.#empty;
+  }
+
+  /**
+   * Creates a Hamt from an iterable of entries. Later entries win over earlier entries with the same key.
+   * @param {Iterable<readonly [K, V]>} entries - The entries of the Hamt.
+   * @returns {Hamt<K, V>} A new Hamt with the entries.
+   */
+  static from<K, V>(entries: Iterable<readonly [K, V]>): Hamt<K, V> {
+    let hamt = Hamt.empty<K, V>();
+    for (const [key, value] of entries) {
+      hamt = hamt.set(key, value);
+    }
+    return hamt;
+  }
+
+  /**
+   * The number of entries in the Hamt.
+   */
+  get size(): number {
+    return this.#size;
+  }
+
+  *[Symbol.iterator](): Iterator<[K, V]> {
+    if (this.#root) yield* entries(this.#root);
+  }
+
+  /**
+   * Gets the value of a key.
+   * @param {K} key - The key to look up.
+   * @returns {V | undefined} The value, or undefined if the key is missing.
+   */
+  get(key: K): V | undefined {
+    return this.#root && lookup(this.#root, 0, hash(key), key)?.value;
+  }
+
+  /**
+   * Checks if the Hamt contains a key.
+   * @param {K} key - The key to look up.
+   * @returns {boolean} true if the key is present, false otherwise.
+   */
+  has(key: K): boolean {
+    return this.#root !== undefined &&
+      lookup(this.#root, 0, hash(key), key) !== undefined;
+  }
+
+  /**
+   * Sets the value of a key. Setting the value a key already has returns the same Hamt.
+   * @param {K} key - The key to set.
+   * @param {V} value - The value of the key.
+   * @returns {Hamt<K, V>} A new Hamt with the key set.
+   */
+  set(key: K, value: V): Hamt<K, V> {
+    const leaf: Leaf<K, V> = { type: "leaf", hash: hash(key), key, value };
+    const existing = this.#root && lookup(this.#root, 0, leaf.hash, key);
+    if (existing && Object.is(existing.value, value)) return this;
+    return new Hamt(
+      insert(this.#root, 0, leaf),
+      existing ? this.#size : this.#size + 1,
+    );
+  }
+
+  /**
+   * Removes a key. Removing a missing key returns the same Hamt.
+   * @param {K} key - The key to remove.
+   * @returns {Hamt<K, V>} A new Hamt without the key.
+   */
+  delete(key: K): Hamt<K, V> {
+    if (!this.#root) return this;
+    const root = remove(this.#root, 0, hash(key), key);
+    return root === this.#root ? this : new Hamt(root, this.#size - 1);
+  }
+}
+
+function fragment(hash: number, shift: number): number {
+  return (hash >>> shift) & MASK;
+}
+
+function popcount(input: number): number {
+  input -= (input >>> 1) & 0x55555555;
+  input = (input & 0x33333333) + ((input >>> 2) & 0x33333333);
+  input = (input + (input >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(input, 0x01010101) >>> 24;
+}
+
+function lookup<K, V>(
+  node: Node<K, V>,
+  shift: number,
+  hash: number,
+  key: K,
+): Leaf<K, V> | undefined {
+  while (node.type === "branch") {
+    const bit = 1 << fragment(hash, shift);
+    if ((node.bitmap & bit) === 0) return undefined;
+    node = node.children[popcount(node.bitmap & (bit - 1))];
+    shift += BITS;
+  }
+  if (node.hash !== hash) return undefined;
+  if (node.type === "leaf") return equals(node.key, key) ? node : undefined;
+  return node.leaves.find((leaf) => equals(leaf.key, key));
+}
+
+function insert<K, V>(
+  node: Node<K, V> | undefined,
+  shift: number,
+  leaf: Leaf<K, V>,
+): Node<K, V> {
+  if (!node) return leaf;
+  if (node.type === "branch") {
+    const bit = 1 << fragment(leaf.hash, shift);
+    const index = popcount(node.bitmap & (bit - 1));
+    return {
+      type: "branch",
+      bitmap: node.bitmap | bit,
+      children: (node.bitmap & bit) === 0
+        ? node.children.toSpliced(index, 0, leaf)
+        : node.children.with(
+          index,
+          insert(node.children[index], shift + BITS, leaf),
+        ),
+    };
+  }
+  if (node.hash !== leaf.hash) return fork(node, leaf, shift);
+  const leaves = node.type === "leaf" ? [node] : node.leaves;
+  const index = leaves.findIndex((other) => equals(other.key, leaf.key));
+  if (index === -1) {
+    return { type: "collision", hash: leaf.hash, leaves: [...leaves, leaf] };
+  }
+  return leaves.length === 1
+    ? leaf
+    : { type: "collision", hash: leaf.hash, leaves: leaves.with(index, leaf) };
+}
+
+// Creates the branches separating two nodes whose hashes differ.
+function fork<K, V>(
+  a: Leaf<K, V> | Collision<K, V>,
+  b: Leaf<K, V>,
+  shift: number,
+): Branch<K, V> {
+  const fa = fragment(a.hash, shift);
+  const fb = fragment(b.hash, shift);
+  if (fa === fb) {
+    return {
+      type: "branch",
+      bitmap: 1 << fa,
+      children: [fork(a, b, shift + BITS)],
+    };
+  }
+  return {
+    type: "branch",
+    bitmap: (1 << fa) | (1 << fb),
+    children: fa < fb ? [a, b] : [b, a],
+  };
+}
+
+// Returns the same node when the key is missing, undefined when the node becomes empty.
+function remove<K, V>(
+  node: Node<K, V>,
+  shift: number,
+  hash: number,
+  key: K,
+): Node<K, V> | undefined {
+  if (node.type === "leaf") {
+    return node.hash === hash && equals(node.key, key) ? undefined : node;
+  }
+  if (node.type === "collision") {
+    if (node.hash !== hash) return node;
+    const index = node.leaves.findIndex((leaf) => equals(leaf.key, key));
+    if (index === -1) return node;
+    const leaves = node.leaves.toSpliced(index, 1);
+    return leaves.length === 1 ? leaves[0] : { ...node, leaves };
+  }
+  const bit = 1 << fragment(hash, shift);
+  if ((node.bitmap & bit) === 0) return node;
+  const index = popcount(node.bitmap & (bit - 1));
+  const child = node.children[index];
+  const next = remove(child, shift + BITS, hash, key);
+  if (next === child) return node;
+  const children = next
+    ? node.children.with(index, next)
+    : node.children.toSpliced(index, 1);
+  if (children.length === 0) return undefined;
+  // A branch left with a single leaf or collision is replaced by it, keeping the trie as shallow as possible.
+  if (children.length === 1 && children[0].type !== "branch") {
+    return children[0];
+  }
+  return {
+    type: "branch",
+    bitmap: next ? node.bitmap : node.bitmap ^ bit,
+    children,
+  };
+}
+
+function* entries<K, V>(node: Node<K, V>): Generator<[K, V]> {
+  switch (node.type) {
+    case "leaf":
+      yield [node.key, node.value];
+      break;
+    case "collision":
+      for (const leaf of node.leaves) yield [leaf.key, leaf.value];
+      break;
+    case "branch":
+      for (const child of node.children) yield* entries(child);
+  }
+}
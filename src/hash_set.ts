@@ -0,0 +1,236 @@
+import { Hamt } from "./hamt.ts";
+import { List } from "./list.ts";
+import { Defined } from "./types.ts";
+
+/**
+ * An immutable set of unique values. Updates return a new HashSet sharing its structure with the original one.
+ * Values are compared by value with `equals`, so equal tuples, dates, Options or Lists are stored once.
+ */
+export class HashSet<T extends Defined> implements Iterable<T> {
+  #hamt: Hamt<T, T>;
+
+  private constructor(hamt: Hamt<T, T>) {
+    this.#hamt = hamt;
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (const [value] of this.#hamt) {
+      yield value;
+    }
+  }
+
+  /**
+   * Creates an empty HashSet.
+   *
+   * @template T - The type of values in the HashSet.
+   * @returns {HashSet<T>} A new HashSet with no values.
+   *
+   * @example
+   * const tags = HashSet.empty<string>();
+   */
+  static empty<T extends Defined>(): HashSet<T> {
+    return new HashSet(Hamt.empty());
+  }
+
+  /**
+   * Creates a new HashSet from the provided values, dropping duplicates.
+   *
+   * @template T - The type of values in the HashSet.
+   * @param {...T[]} values - The values to include in the new HashSet.
+   * @returns {HashSet<T>} A new HashSet containing the provided values.
+   *
+   * @example
+   * const tags = HashSet.of("a", "b", "a");  // HashSet {'a', 'b'}
+   */
+  static of<T extends Defined>(...values: readonly T[]): HashSet<T> {
+    return HashSet.from(values);
+  }
+
+  /**
+   * Creates a new HashSet from an iterable, such as a native Set or a List, dropping duplicates.
+   *
+   * @template T - The type of values in the HashSet.
+   * @param {Iterable<T>} iterable - The values to include in the new HashSet.
+   * @returns {HashSet<T>} A new HashSet containing the values of the iterable.
+   *
+   * @example
+   * const fromSet = HashSet.from(new Set([1, 2]));
+   * const fromList = HashSet.from(List.of(1, 2, 2));
+   */
+  static from<T extends Defined>(iterable: Iterable<T>): HashSet<T> {
+    let hamt = Hamt.empty<T, T>();
+    for (const value of iterable) {
+      hamt = hamt.set(value, value);
+    }
+    return new HashSet(hamt);
+  }
+
+  /**
+   * The number of values in the HashSet.
+   */
+  get size(): number {
+    return this.#hamt.size;
+  }
+
+  /**
+   * Checks if the HashSet contains a value.
+   *
+   * @param {T} value - The value to look up.
+   * @returns {boolean} true if the value is present, false otherwise.
+   */
+  has(value: T): boolean {
+    return this.#hamt.has(value);
+  }
+
+  /**
+   * Returns a new HashSet with the value added.
+   *
+   * @param {T} value - The value to add.
+   * @returns {HashSet<T>} A new HashSet with the value, or the original HashSet if it already contains it.
+   *
+   * @example
+   * HashSet.of(1, 2).add(3).toArray();  // [1, 2, 3]
+   */
+  add(value: T): HashSet<T> {
+    return this.has(value) ? this : new HashSet(this.#hamt.set(value, value));
+  }
+
+  /**
+   * Returns a new HashSet without the value.
+   *
+   * @param {T} value - The value to remove.
+   * @returns {HashSet<T>} A new HashSet without the value, or the original HashSet if it does not contain it.
+   *
+   * @example
+   * HashSet.of(1, 2).delete(2).toArray();  // [1]
+   */
+  delete(value: T): HashSet<T> {
+    const hamt = this.#hamt.delete(value);
+    return hamt === this.#hamt ? this : new HashSet(hamt);
+  }
+
+  /**
+   * Creates a new HashSet with the values of both HashSets.
+   *
+   * @param {Iterable<T>} other - The values to add.
+   * @returns {HashSet<T>} A new HashSet with the values present in either of them.
+   *
+   * @example
+   * HashSet.of(1, 2).union(HashSet.of(2, 3)).toArray();  // [1, 2, 3]
+   */
+  union(other: Iterable<T>): HashSet<T> {
+    let hamt = this.#hamt;
+    for (const value of other) {
+      if (!hamt.has(value)) hamt = hamt.set(value, value);
+    }
+    return hamt === this.#hamt ? this : new HashSet(hamt);
+  }
+
+  /**
+   * Creates a new HashSet with the values present in both HashSets.
+   *
+   * @param {HashSet<T>} other - The HashSet to intersect with.
+   * @returns {HashSet<T>} A new HashSet with the common values.
+   *
+   * @example
+   * HashSet.of(1, 2).intersection(HashSet.of(2, 3)).toArray();  // [2]
+   */
+  intersection(other: HashSet<T>): HashSet<T> {
+    return this.filter((value) => other.has(value));
+  }
+
+  /**
+   * Creates a new HashSet with the values that are not present in the other HashSet.
+   *
+   * @param {HashSet<T>} other - The HashSet with the values to exclude.
+   * @returns {HashSet<T>} A new HashSet with the remaining values.
+   *
+   * @example
+   * HashSet.of(1, 2).difference(HashSet.of(2, 3)).toArray();  // [1]
+   */
+  difference(other: HashSet<T>): HashSet<T> {
+    return this.filter((value) => !other.has(value));
+  }
+
+  /**
+   * Checks if every value of the HashSet is present in the other HashSet.
+   *
+   * @param {HashSet<T>} other - The HashSet to compare with.
+   * @returns {boolean} true if the HashSet is a subset of the other one, false otherwise.
+   */
+  isSubsetOf(other: HashSet<T>): boolean {
+    if (this.size > other.size) return false;
+    for (const value of this) {
+      if (!other.has(value)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Creates a new HashSet by applying a function to each value. Values mapping to the same result are merged.
+   *
+   * @template U - The type of values in the new HashSet.
+   * @param {(value: T) => U} fn - A function that transforms each value.
+   * @returns {HashSet<U>} A new HashSet with the transformed values.
+   *
+   * @example
+   * HashSet.of("a", "bb", "cc").map((word) => word.length).toArray();  // [1, 2]
+   */
+  map<U extends Defined>(fn: (value: T) => U): HashSet<U> {
+    const values: U[] = [];
+    for (const value of this) {
+      values.push(fn(value));
+    }
+    return HashSet.from(values);
+  }
+
+  /**
+   * Creates a new HashSet with the values that satisfy the provided predicate.
+   *
+   * @param {(value: T) => boolean} predicate - A function that tests each value.
+   * @returns {HashSet<T>} A new HashSet with the values that satisfy the predicate.
+   */
+  filter(predicate: (value: T) => boolean): HashSet<T> {
+    let hamt = this.#hamt;
+    for (const value of this) {
+      if (!predicate(value)) hamt = hamt.delete(value);
+    }
+    return hamt === this.#hamt ? this : new HashSet(hamt);
+  }
+
+  /**
+   * Converts the HashSet to a List.
+   *
+   * @returns {List<T>} A List with the values of the HashSet.
+   */
+  toList(): List<T> {
+    return List.from(this);
+  }
+
+  /**
+   * Converts the HashSet to a native Set.
+   *
+   * @returns {Set<T>} A new Set with the values of the HashSet.
+   */
+  toSet(): Set<T> {
+    return new Set(this);
+  }
+
+  /**
+   * Converts the HashSet to an array.
+   *
+   * @returns {T[]} A new array with the values of the HashSet.
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Converts the HashSet to its JSON representation, which is an array of its values.
+   *
+   * @returns {T[]} An array with the values of the HashSet.
+   */
+  toJSON(): T[] {
+    return this.toArray();
+  }
+}
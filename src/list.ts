@@ -1,16 +1,89 @@
+import { AsyncOptions, AsyncSeq } from "./async_seq.ts";
+import { Dict } from "./dict.ts";
+import { Equals, equals, Hash, hash } from "./equal.ts";
+import { TaggedError } from "./error.ts";
+import { HashSet } from "./hash_set.ts";
 import { None, Option, Some } from "./option.ts";
-import { Defined } from "./types.ts";
-import { isDefined, isFunction } from "./util.ts";
+import { type Comparator, natural, number as byNumber } from "./ord.ts";
+import { mathRandom, type Random } from "./random.ts";
+import { Err, Ok, type Result } from "./result.ts";
+import { Seq } from "./seq.ts";
+import { Awaitable, Defined } from "./types.ts";
+import { isDefined, isFunction, raise } from "./util.ts";
+import { Vector } from "./vector.ts";
+
+/**
+ * A named reducer of `List.aggregate`, folding the elements into a value starting from an initial one.
+ * @template T - The type of the aggregated elements.
+ * @template U - The type of the aggregated value.
+ */
+export type Aggregator<T, U> = {
+  initialValue: U;
+  reducer: (prev: U, next: T) => U;
+};
+
+/**
+ * An edit of a List produced by `List.diff` and applied by `List.patch`.
+ * Indexes refer to the List as it is when the operation is applied, after the previous operations.
+ * @template T - The type of elements in the List.
+ */
+export type ListOp<T> =
+  | { readonly type: "insert"; readonly index: number; readonly item: T }
+  | { readonly type: "remove"; readonly index: number; readonly item: T }
+  | {
+    readonly type: "move";
+    readonly from: number;
+    readonly to: number;
+    readonly item: T;
+  }
+  | {
+    readonly type: "update";
+    readonly index: number;
+    readonly prev: T;
+    readonly item: T;
+  };
+
+/**
+ * The error of `List.patch` when an operation does not apply to the List,
+ * because its index is not an integer within range or the element it expects is not there.
+ * @template T - The type of elements in the List.
+ */
+export class PatchError<T extends Defined>
+  extends TaggedError("PatchError")<{ op: ListOp<T>; position: number }> {}
 
 export class List<T extends Defined> implements Iterable<T> {
-  #array: ReadonlyArray<T>;
+  #vector: Vector<T>;
+
+  protected constructor(iterable: Iterable<T>) {
+    this.#vector = iterable instanceof Vector
+      ? iterable
+      : iterable instanceof List
+      ? iterable.#vector
+      : Vector.from(iterable);
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.#vector[Symbol.iterator]();
+  }
 
-  private constructor(iterable: Iterable<T>) {
-    this.#array = Array.from(iterable);
+  /**
+   * Checks if the List is equal to another value: a List with the same length and pairwise equal elements by `equals`.
+   *
+   * @param {unknown} other - The value to compare with.
+   * @returns {boolean} true if the other value is an equal List, false otherwise.
+   */
+  [Equals](other: unknown): boolean {
+    return other instanceof List && other.#vector.size === this.#vector.size &&
+      equals(this.toArray(), other.toArray());
   }
 
-  *[Symbol.iterator](): Iterator<T> {
-    yield* this.#array;
+  /**
+   * Computes the hash of the List, consistent with its `Equals` method.
+   *
+   * @returns {number} The hash of the List.
+   */
+  [Hash](): number {
+    return hash(this.toArray());
   }
 
   /**
@@ -74,6 +147,27 @@ export class List<T extends Defined> implements Iterable<T> {
     return new List(Array.from(iterable));
   }
 
+  /**
+   * Creates a new List from an async iterable, or from an iterable of promises.
+   *
+   * @template T - The type of elements in the List.
+   * @param {AsyncIterable<T> | Iterable<Awaitable<T>>} iterable - The iterable to read elements from.
+   * @returns {Promise<List<T>>} A promise resolving to a new List with the elements of the iterable.
+   *
+   * @example
+   * // Reading every page of a paginated API
+   * async function* pages() {
+   *   for (let page = 1; page <= 3; page++) yield* await fetchPage(page);
+   * }
+   *
+   * const items = await List.fromAsync(pages());
+   */
+  static fromAsync<T extends Defined>(
+    iterable: AsyncIterable<T> | Iterable<Awaitable<T>>,
+  ): Promise<List<T>> {
+    return AsyncSeq.from(iterable).toList();
+  }
+
   /**
    * Creates a deep copy of the List.
    *
@@ -95,7 +189,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(clonedUser);   // { id: 1, name: "Charlie" }
    */
   clone(): List<T> {
-    return new List(structuredClone(this.#array));
+    return new List(structuredClone(this.toArray()));
   }
 
   /**
@@ -115,7 +209,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(appendedList.toArray());  // [1, 2, 3, 4, 5, 6]
    */
   append(...items: readonly T[]): List<T> {
-    return new List([...this.#array, ...items]);
+    return new List(this.#vector.concat(Vector.from(items)));
   }
 
   /**
@@ -135,14 +229,15 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(prependedList.toArray());  // [1, 2, 3, 4, 5]
    */
   prepend(...items: readonly T[]): List<T> {
-    return new List([...items, ...this.#array]);
+    return new List(Vector.from(items).concat(this.#vector));
   }
 
   /**
    * Inserts an element at the specified index in the List.
    *
    * @param {T} item - The element to insert into the List.
-   * @param {number} at - The index at which to insert the element. Negative values count from the end of the List.
+   * @param {number} at - The index at which to insert the element. Negative values count from the end of the List, fractions are truncated.
+   * Indexes past the end append the element, and negative indexes before the start prepend it.
    * @returns {List<T>} A new List instance with the element inserted at the specified index.
    *
    * @example
@@ -156,15 +251,16 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(insertedList.toArray());  // [1, 2, 3, 4, 5]
    */
   insert(item: T, at: number): List<T> {
-    at = at < 0 ? this.#array.length + at : at;
-    return new List(this.#array.toSpliced(at, 0, item));
+    return new List(
+      this.#vector.insert(relativeIndex(at, this.#vector.size), item),
+    );
   }
 
   /**
    * Removes an element at the specified index from the List.
    *
-   * @param {number} index - The index of the element to remove. Negative values count from the end of the List.
-   * @returns {List<T>} A new List instance with the element removed at the specified index.
+   * @param {number} index - The index of the element to remove. Negative values count from the end of the List, fractions are truncated.
+   * @returns {List<T>} A new List instance with the element removed at the specified index, or the same elements if the index is out of bounds.
    *
    * @example
    * // Creating a list of numbers
@@ -177,14 +273,15 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(removedList.toArray());  // [1, 2, 4, 5]
    */
   remove(index: number): List<T> {
-    index = index < 0 ? this.#array.length + index : index;
-    return new List(this.#array.toSpliced(index, 1));
+    return new List(
+      this.#vector.remove(relativeIndex(index, this.#vector.size)),
+    );
   }
 
   /**
    * Retrieves the element at the specified index in the List, wrapped in an Option.
    *
-   * @param {number} index - The index of the element to retrieve. Negative values count from the end of the List.
+   * @param {number} index - The index of the element to retrieve. Negative values count from the end of the List, fractions are truncated.
    * @returns {Option<T>} An Option containing the element at the specified index, or None if the index is out of bounds.
    *
    * @example
@@ -198,7 +295,9 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(elementAtIndex.unwrap()); // 3
    */
   at(index: number): Option<T> {
-    return Option.from(this.#array.at(index));
+    return Option.from(
+      this.#vector.get(relativeIndex(index, this.#vector.size)),
+    );
   }
 
   /**
@@ -256,7 +355,10 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(firstEven.unwrap()); // 2
    */
   find(predicate: (item: T) => boolean): Option<T> {
-    return Option.from(this.#array.find(predicate));
+    for (const item of this.#vector) {
+      if (predicate(item)) return Some(item);
+    }
+    return None;
   }
 
   /**
@@ -276,7 +378,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(indexOption);  // Some(1) (the index of the first even number, which is 1)
    */
   findIndex(predicate: (item: T) => boolean): Option<number> {
-    const foundIndex = this.#array.findIndex(predicate);
+    const foundIndex = this.toArray().findIndex(predicate);
     return foundIndex === -1 ? None : Some(foundIndex);
   }
 
@@ -297,7 +399,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(indexOption);  // Some(3) (the index of the last even number, which is 3)
    */
   findLastIndex(predicate: (item: T) => boolean): Option<number> {
-    const foundIndex = this.#array.findLastIndex(predicate);
+    const foundIndex = this.toArray().findLastIndex(predicate);
     return foundIndex === -1 ? None : Some(foundIndex);
   }
 
@@ -318,7 +420,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(lastEven.unwrap()); // 4
    */
   findLast(predicate: (item: T) => boolean): Option<T> {
-    const item = this.#array.findLast(predicate);
+    const item = this.toArray().findLast(predicate);
     return isDefined(item) ? Some(item) : None;
   }
 
@@ -340,15 +442,15 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(swappedList.toArray());  // ['A', 'D', 'C', 'B', 'E']
    */
   swap(from: number, to: number): List<T> {
-    from = from < 0 ? this.#array.length + from : from;
-    to = to < 0 ? this.#array.length + to : to;
-    if (from < 0 || from >= this.#array.length) return this;
-    if (to < 0 || to >= this.#array.length) return this;
-    const temp = this.#array[to];
-    const arr = this.#array.slice();
-    arr[to] = arr[from];
-    arr[from] = temp;
-    return new List(arr);
+    const size = this.#vector.size;
+    from = from < 0 ? size + from : from;
+    to = to < 0 ? size + to : to;
+    if (from < 0 || from >= size) return this;
+    if (to < 0 || to >= size) return this;
+    const temp = this.#vector.get(to)!;
+    return new List(
+      this.#vector.set(to, this.#vector.get(from)!).set(from, temp),
+    );
   }
 
   /**
@@ -369,8 +471,11 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(replacedList.toArray());  // ['Apple', 'Grapes', 'Orange']
    */
   replace(item: T, at: number): List<T> {
-    at = at < 0 ? this.#array.length + at : at;
-    return new List(this.#array.with(at, item));
+    at = relativeIndex(at, this.#vector.size);
+    if (at < 0 || at >= this.#vector.size) {
+      raise(new RangeError(`Invalid index : ${at}`));
+    }
+    return new List(this.#vector.set(at, item));
   }
 
   /**
@@ -407,7 +512,7 @@ export class List<T extends Defined> implements Iterable<T> {
    */
   update(at: number, fn: (prev: T) => T): List<T> {
     return this.at(at).match(
-      (value) => new List(this.#array.with(at, fn(value))),
+      (value) => this.replace(fn(value), at),
       () => this,
     );
   }
@@ -415,6 +520,7 @@ export class List<T extends Defined> implements Iterable<T> {
   /**
    * Shuffles the elements of the List randomly.
    *
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
    * @returns {List<T>} A new List instance with the elements shuffled randomly.
    *
    * @example
@@ -424,13 +530,16 @@ export class List<T extends Defined> implements Iterable<T> {
    * // Shuffling the order of numbers
    * const shuffledList = numberList.shuffle();
    *
+   * // Shuffling the same way on every run
+   * const reproducibleList = numberList.shuffle(SeededRandom.from(42));
+   *
    * console.log(numberList.toArray());  // [1, 2, 3, 4, 5]
    * console.log(shuffledList.toArray());  // [3, 5, 2, 1, 4] (example output)
    */
-  shuffle(): List<T> {
-    const shuffledArray = this.#array.slice();
+  shuffle(rng: Random = mathRandom): List<T> {
+    const shuffledArray = this.toArray();
     for (let i = shuffledArray.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(rng.next() * (i + 1));
       [shuffledArray[i], shuffledArray[j]] = [
         shuffledArray[j],
         shuffledArray[i],
@@ -442,6 +551,7 @@ export class List<T extends Defined> implements Iterable<T> {
   /**
    * Returns an Option containing a randomly selected element from the List.
    *
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
    * @returns {Option<T>} An Option containing the randomly selected element, or None if the List is empty.
    *
    * @example
@@ -457,13 +567,81 @@ export class List<T extends Defined> implements Iterable<T> {
    *   console.log('The list is empty.');
    * }
    */
-  random(): Option<T> {
-    const randomIndex = Math.floor(Math.random() * this.#array.length);
+  random(rng: Random = mathRandom): Option<T> {
+    const randomIndex = Math.floor(rng.next() * this.#vector.size);
     return this.at(randomIndex);
   }
 
+  /**
+   * Selects distinct elements of the List at random, each of them having the same chance to be selected.
+   *
+   * @param {number} count - The number of elements to select. Must be a non-negative integer.
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
+   * @returns {List<T>} A new List with the selected elements in random order, or every element if the List is shorter than `count`.
+   * @throws {RangeError} If the count is not a non-negative integer.
+   *
+   * @example
+   * // Creating a list of users
+   * const userList = List.of('alice', 'bob', 'carol', 'dave');
+   *
+   * console.log(userList.sample(2).toArray());  // ['carol', 'alice'] (example output)
+   */
+  sample(count: number, rng: Random = mathRandom): List<T> {
+    if (!Number.isInteger(count) || count < 0) {
+      raise(new RangeError(`Invalid sample size : ${count}`));
+    }
+    const items = this.toArray();
+    const size = Math.min(count, items.length);
+    // Only the first `size` steps of a Fisher-Yates shuffle are needed.
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(rng.next() * (items.length - i));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    items.length = size;
+    return new List(items);
+  }
+
+  /**
+   * Selects distinct elements of the List at random, the chance of each element being proportional to its weight.
+   * Elements with a weight of 0 are never selected.
+   *
+   * @param {number} count - The number of elements to select. Must be a non-negative integer.
+   * @param {(item: T) => number} weight - A function returning the weight of each element, a non-negative finite number.
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
+   * @returns {List<T>} A new List with the selected elements in order of selection, or every element with a positive weight if there are fewer than `count`.
+   * @throws {RangeError} If the count is not a non-negative integer, or a weight is negative or not finite.
+   *
+   * @example
+   * // Creating a list of prizes
+   * const prizeList = List.of({ name: 'car', odds: 1 }, { name: 'pen', odds: 99 });
+   *
+   * console.log(prizeList.sampleWeighted(1, (prize) => prize.odds).toArray());  // [{ name: 'pen', odds: 99 }] (most likely)
+   */
+  sampleWeighted(
+    count: number,
+    weight: (item: T) => number,
+    rng: Random = mathRandom,
+  ): List<T> {
+    if (!Number.isInteger(count) || count < 0) {
+      raise(new RangeError(`Invalid sample size : ${count}`));
+    }
+    // Each element gets the key log(u) / weight and the largest keys win (Efraimidis-Spirakis),
+    // which is the same as drawing the elements one after the other without replacement.
+    const keyed: { item: T; key: number }[] = [];
+    for (const item of this.#vector) {
+      const w = weight(item);
+      if (!(w >= 0 && w < Infinity)) {
+        raise(new RangeError(`Invalid weight : ${w}`));
+      }
+      if (w > 0) keyed.push({ item, key: Math.log(1 - rng.next()) / w });
+    }
+    keyed.sort((a, b) => b.key - a.key);
+    return new List(keyed.slice(0, count).map(({ item }) => item));
+  }
+
   /**
    * Sorts the elements of the List based on the provided comparator function or the default sorting order.
+   * The sort is stable: elements that compare equal keep their relative order.
    *
    * @param {(a: T, b: T) => number} [fn] - A comparator function that defines the sort order. If not provided, the default sorting order is used.
    * @returns {List<T>} A new List instance with the elements sorted.
@@ -479,7 +657,135 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(sortedList.toArray());  // [1, 2, 3, 4, 5]
    */
   sort(fn?: (a: T, b: T) => number): List<T> {
-    return new List(this.#array.toSorted(fn));
+    return new List(this.toArray().sort(fn));
+  }
+
+  /**
+   * Sorts the elements of the List by a key derived from each of them. The sort is stable.
+   *
+   * @template K - The type of the sort keys.
+   * @param {(item: T) => K} fn - A function deriving the sort key of each element.
+   * @param {Comparator<K>} [comparator] - The comparator of the keys. Default is `Ord.natural`.
+   * @returns {List<T>} A new List instance with the elements sorted by their keys.
+   *
+   * @example
+   * // Creating a list of persons
+   * const personList = List.of({ name: 'Bob', age: 30 }, { name: 'Alice', age: 25 });
+   *
+   * // Sorting persons by name, then by descending age
+   * const byName = personList.sortBy((person) => person.name, Ord.string({ locale: 'en' }));
+   * const byAgeDesc = personList.sortBy((person) => person.age, Ord.reverse(Ord.number));
+   *
+   * console.log(byName.toArray());  // [{ name: 'Alice', age: 25 }, { name: 'Bob', age: 30 }]
+   */
+  sortBy<K>(
+    fn: (item: T) => K,
+    comparator: Comparator<K> = natural,
+  ): List<T> {
+    return this.sort((a, b) => comparator(fn(a), fn(b)));
+  }
+
+  /**
+   * Finds the element with the smallest key. On ties, the first one wins.
+   *
+   * @template K - The type of the keys.
+   * @param {(item: T) => K} fn - A function deriving the key of each element.
+   * @param {Comparator<K>} [comparator] - The comparator of the keys. Default is `Ord.natural`.
+   * @returns {Option<T>} An Option containing the element with the smallest key, or None if the List is empty.
+   *
+   * @example
+   * // Creating a list of persons
+   * const personList = List.of({ name: 'Bob', age: 30 }, { name: 'Alice', age: 25 });
+   *
+   * console.log(personList.minBy((person) => person.age));  // Some({ name: 'Alice', age: 25 })
+   */
+  minBy<K>(
+    fn: (item: T) => K,
+    comparator: Comparator<K> = natural,
+  ): Option<T> {
+    return this.#extremum(fn, comparator, (order) => order < 0);
+  }
+
+  /**
+   * Finds the element with the largest key. On ties, the first one wins.
+   *
+   * @template K - The type of the keys.
+   * @param {(item: T) => K} fn - A function deriving the key of each element.
+   * @param {Comparator<K>} [comparator] - The comparator of the keys. Default is `Ord.natural`.
+   * @returns {Option<T>} An Option containing the element with the largest key, or None if the List is empty.
+   *
+   * @example
+   * // Creating a list of persons
+   * const personList = List.of({ name: 'Bob', age: 30 }, { name: 'Alice', age: 25 });
+   *
+   * console.log(personList.maxBy((person) => person.age));  // Some({ name: 'Bob', age: 30 })
+   */
+  maxBy<K>(
+    fn: (item: T) => K,
+    comparator: Comparator<K> = natural,
+  ): Option<T> {
+    return this.#extremum(fn, comparator, (order) => order > 0);
+  }
+
+  /**
+   * Searches a List sorted by the given comparator for an element, in O(log n).
+   *
+   * @param {T} item - The element to search for.
+   * @param {Comparator<T>} [comparator] - The comparator the List is sorted by. Default is `Ord.natural`.
+   * @returns {Result<number, number>} Ok with the index of a matching element, or Err with the index at which the element would be inserted to keep the List sorted.
+   *
+   * @example
+   * // Creating a sorted list of numbers
+   * const numberList = List.of(10, 20, 30);
+   *
+   * console.log(numberList.binarySearch(20));  // Ok(1)
+   * console.log(numberList.binarySearch(25));  // Err(2)
+   */
+  binarySearch(
+    item: T,
+    comparator: Comparator<T> = natural,
+  ): Result<number, number> {
+    let low = 0;
+    let high = this.#vector.size;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const order = comparator(this.#vector.get(middle)!, item);
+      if (order === 0) return Ok(middle);
+      if (order < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return Err(low);
+  }
+
+  /**
+   * Inserts an element into a List sorted by the given comparator, keeping it sorted.
+   * The element is placed after the elements it compares equal to.
+   *
+   * @param {T} item - The element to insert.
+   * @param {Comparator<T>} [comparator] - The comparator the List is sorted by. Default is `Ord.natural`.
+   * @returns {List<T>} A new sorted List instance with the element inserted.
+   *
+   * @example
+   * // Creating a sorted list of numbers
+   * const numberList = List.of(10, 20, 30);
+   *
+   * console.log(numberList.insertSorted(25).toArray());  // [10, 20, 25, 30]
+   */
+  insertSorted(item: T, comparator: Comparator<T> = natural): List<T> {
+    let low = 0;
+    let high = this.#vector.size;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (comparator(this.#vector.get(middle)!, item) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return new List(this.#vector.insert(low, item));
   }
 
   /**
@@ -498,13 +804,13 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(reversedList.toArray());  // ['E', 'D', 'C', 'B', 'A']
    */
   reverse(): List<T> {
-    return new List(this.#array.toReversed());
+    return new List(this.toArray().reverse());
   }
 
   /**
-   * Removes duplicate elements from the List based on a discriminator function or the default equality check.
+   * Removes duplicate elements from the List based on a discriminator function or value equality (`equals`).
    *
-   * @param {((item: T) => K)} [discriminator] - A function that generates a unique key for each element. If not provided, the default equality check is used.
+   * @param {((item: T) => K)} [discriminator] - A function that generates a key for each element, keys are compared with `equals`. If not provided, the elements themselves are compared.
    * @returns {List<T>} A new List instance with duplicate elements removed.
    *
    * @example
@@ -532,17 +838,41 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(uniquePersons.toArray());
    * // [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }]
    */
-  uniq<K extends (string | number)>(discriminator?: (item: T) => K): List<T> {
-    if (!isFunction(discriminator)) {
-      return new List(new Set(this.#array));
+  uniq<K extends Defined>(discriminator?: (item: T) => K): List<T> {
+    let seen = HashSet.empty<Defined>();
+    const unique: T[] = [];
+    for (const item of this.#vector) {
+      const key = isFunction(discriminator) ? discriminator(item) : item;
+      if (seen.has(key)) continue;
+      seen = seen.add(key);
+      unique.push(item);
     }
-    const map = new Map<K, T>();
-    for (const item of this.#array) {
-      const key = discriminator(item);
-      if (map.has(key)) continue;
-      map.set(key, item);
+    return new List(unique);
+  }
+
+  /**
+   * Removes duplicate elements from the List based on a custom comparator, keeping the first occurrence.
+   * Each element is compared with the elements kept before it, so this runs in O(n²): prefer `uniq` with a
+   * discriminator when the elements have a key.
+   *
+   * @param {(a: T, b: T) => boolean} comparator - A function that tells if two elements are duplicates.
+   * @returns {List<T>} A new List instance with duplicate elements removed.
+   *
+   * @example
+   * // Creating a list of words
+   * const wordList = List.of('Apple', 'apple', 'Banana');
+   *
+   * // Removing words that only differ by case
+   * const uniqueWords = wordList.uniqWith((a, b) => a.toLowerCase() === b.toLowerCase());
+   *
+   * console.log(uniqueWords.toArray());  // ['Apple', 'Banana']
+   */
+  uniqWith(comparator: (a: T, b: T) => boolean): List<T> {
+    const unique: T[] = [];
+    for (const item of this.#vector) {
+      if (!unique.some((other) => comparator(other, item))) unique.push(item);
     }
-    return new List(map.values());
+    return new List(unique);
   }
 
   /**
@@ -562,7 +892,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(takenList.toArray());  // [1, 2, 3]
    */
   take(count: number): List<T> {
-    return new List(this.#array.slice(0, count));
+    return new List(this.#vector.slice(0, count));
   }
 
   /**
@@ -582,10 +912,10 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(takenList.toArray());  // [1, 2, 3]
    */
   takeWhile(predicate: (item: T, index: number) => boolean): List<T> {
-    const takeIndex = this.#array.findIndex((item, index) =>
+    const takeIndex = this.toArray().findIndex((item, index) =>
       !predicate(item, index)
     );
-    return this.take(takeIndex === -1 ? this.#array.length : takeIndex);
+    return this.take(takeIndex === -1 ? this.#vector.size : takeIndex);
   }
 
   /**
@@ -605,7 +935,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(droppedList.toArray());  // [3, 4, 5]
    */
   drop(count: number): List<T> {
-    return new List(this.#array.slice(count));
+    return new List(this.#vector.slice(count));
   }
 
   /**
@@ -626,7 +956,7 @@ export class List<T extends Defined> implements Iterable<T> {
    */
   dropWhile(predicate: (item: T) => boolean): List<T> {
     let dropIndex = 0;
-    for (const item of this.#array) {
+    for (const item of this.#vector) {
       if (!predicate(item)) {
         break;
       }
@@ -672,7 +1002,7 @@ export class List<T extends Defined> implements Iterable<T> {
    */
   filter(predicate: (item: T) => boolean): List<T>;
   filter(predicate: (item: T) => boolean): List<T> {
-    return new List(this.#array.filter(predicate));
+    return new List(this.toArray().filter(predicate));
   }
 
   /**
@@ -693,7 +1023,73 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(doubledList.toArray());  // [2, 4, 6, 8, 10]
    */
   map<U extends Defined>(fn: (item: T) => U): List<U> {
-    return new List(this.#array.map(fn));
+    return new List(this.toArray().map(fn));
+  }
+
+  /**
+   * Creates a new List by applying an async function to each element, optionally running several at once.
+   *
+   * @template U - The type of elements in the new List after mapping.
+   * @param {(item: T, index: number) => Awaitable<U>} fn - An async function that transforms each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {Promise<List<U>>} A promise resolving to the new List, or rejecting with the first failure.
+   * It rejects with a RangeError if the concurrency is not a positive integer.
+   *
+   * @example
+   * // Creating a list of user ids
+   * const ids = List.of(1, 2, 3);
+   *
+   * // Fetching two users at a time
+   * const users = await ids.mapAsync((id) => fetchUser(id), { concurrency: 2 });
+   */
+  mapAsync<U extends Defined>(
+    fn: (item: T, index: number) => Awaitable<U>,
+    options?: AsyncOptions,
+  ): Promise<List<U>> {
+    return AsyncSeq.from(this).mapAsync(fn, options).toList();
+  }
+
+  /**
+   * Creates a new List with the elements that satisfy an async predicate, optionally testing several at once.
+   *
+   * @param {(item: T, index: number) => Awaitable<boolean>} predicate - An async function that tests each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {Promise<List<T>>} A promise resolving to the filtered List, or rejecting with the first failure.
+   * It rejects with a RangeError if the concurrency is not a positive integer.
+   *
+   * @example
+   * // Creating a list of urls
+   * const urls = List.of("https://a.dev", "https://b.dev");
+   *
+   * // Keeping the reachable ones
+   * const reachable = await urls.filterAsync(async (url) => (await fetch(url)).ok, { concurrency: 2 });
+   */
+  filterAsync(
+    predicate: (item: T, index: number) => Awaitable<boolean>,
+    options?: AsyncOptions,
+  ): Promise<List<T>> {
+    return AsyncSeq.from(this).filterAsync(predicate, options).toList();
+  }
+
+  /**
+   * Runs an async function for each element, optionally running several at once.
+   *
+   * @param {(item: T, index: number) => Awaitable<void>} fn - An async function to run for each element along with its index.
+   * @param {AsyncOptions} [options] - The concurrency, ordering and abort options.
+   * @returns {Promise<void>} A promise that resolves once every element was handled, or rejects with the first failure.
+   *
+   * @example
+   * // Creating a list of files
+   * const files = List.of("a.txt", "b.txt", "c.txt");
+   *
+   * // Uploading two files at a time
+   * await files.forEachAsync((file) => upload(file), { concurrency: 2 });
+   */
+  forEachAsync(
+    fn: (item: T, index: number) => Awaitable<void>,
+    options?: AsyncOptions,
+  ): Promise<void> {
+    return AsyncSeq.from(this).forEachAsync(fn, options);
   }
 
   /**
@@ -715,7 +1111,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(sum);  // 15
    */
   reduce<U>(initialValue: U, reducer: (prev: U, next: T) => U): U {
-    return this.#array.reduce(reducer, initialValue);
+    return this.toArray().reduce(reducer, initialValue);
   }
 
   /**
@@ -737,7 +1133,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(concatenated);  // '54321'
    */
   reduceRight<U>(initialValue: U, reducer: (prev: U, next: T) => U): U {
-    return this.#array.reduceRight(reducer, initialValue);
+    return this.toArray().reduceRight(reducer, initialValue);
   }
 
   /**
@@ -765,7 +1161,7 @@ export class List<T extends Defined> implements Iterable<T> {
    */
   group<K extends PropertyKey>(fn: (item: T) => K): Record<K, T[]> {
     const record = Object.create(null) as Record<K, T[]>;
-    for (const item of this.#array) {
+    for (const item of this.#vector) {
       const key = fn(item);
       record[key] ??= [];
       record[key].push(item);
@@ -773,6 +1169,210 @@ export class List<T extends Defined> implements Iterable<T> {
     return record;
   }
 
+  /**
+   * Groups the elements of the List into a Dict of Lists, keyed by the result of a grouping function.
+   * Unlike `group`, keys can be of any type and are compared by value with `equals`, such as tuples of several fields.
+   * The order of the elements within each group is kept, but the groups follow the order of the Dict, not the order of
+   * their first element.
+   *
+   * @template K - The type of keys generated by the grouping function.
+   * @param {(item: T) => K} fn - A function that generates keys for grouping elements.
+   * @returns {Dict<K, List<T>>} A Dict where keys are generated by the function, and values are Lists of grouped elements.
+   *
+   * @example
+   * // Creating a list of persons with ages
+   * const personList = List.of(
+   *   { name: 'Alice', age: 25 },
+   *   { name: 'Bob', age: 30 },
+   *   { name: 'Charlie', age: 25 }
+   * );
+   *
+   * // Grouping persons by age
+   * const groupedByAge = personList.groupBy((person) => person.age);
+   *
+   * console.log(groupedByAge.get(25));
+   * // Some(List [{ name: 'Alice', age: 25 }, { name: 'Charlie', age: 25 }])
+   */
+  groupBy<K extends Defined>(fn: (item: T) => K): Dict<K, List<T>> {
+    let groups = Dict.empty<K, List<T>>();
+    for (const item of this.#vector) {
+      const key = fn(item);
+      const group = groups.get(key).unwrapOr(List.empty<T>());
+      groups = groups.set(key, group.append(item));
+    }
+    return groups;
+  }
+
+  /**
+   * Counts the elements of the List by a key generated from each of them. Keys are compared by value with `equals`.
+   * The counts follow the order of the Dict, not the order of the first element with each key.
+   *
+   * @template K - The type of keys generated by the function.
+   * @param {(item: T) => K} fn - A function that generates the key of each element.
+   * @returns {Dict<K, number>} A Dict with the number of elements for each key.
+   *
+   * @example
+   * // Creating a list of words
+   * const wordList = List.of('apple', 'avocado', 'banana');
+   *
+   * // Counting words by their first letter
+   * const counts = wordList.countBy((word) => word[0]);
+   *
+   * console.log(counts.toRecord());  // { a: 2, b: 1 }
+   */
+  countBy<K extends Defined>(fn: (item: T) => K): Dict<K, number> {
+    let counts = Dict.empty<K, number>();
+    for (const item of this.#vector) {
+      const key = fn(item);
+      counts = counts.set(key, counts.get(key).unwrapOr(0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Counts the occurrences of each distinct element of the List. Elements are compared by value with `equals`.
+   *
+   * @returns {Dict<T, number>} A Dict with the number of occurrences of each element.
+   *
+   * @example
+   * // Creating a list of colors
+   * const colorList = List.of('red', 'blue', 'red');
+   *
+   * console.log(colorList.frequencies().toRecord());  // { red: 2, blue: 1 }
+   */
+  frequencies(): Dict<T, number> {
+    let counts = Dict.empty<T, number>();
+    for (const item of this.#vector) {
+      counts = counts.set(item, counts.get(item).unwrapOr(0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Computes several named aggregates of the List in a single pass over its elements.
+   *
+   * @template A - The type of the aggregated values, by name.
+   * @param {{ [P in keyof A]: Aggregator<T, A[P]> }} aggregators - The named reducers with their initial values.
+   * @returns {Option<A>} An Option containing an object with the aggregated value of each reducer, or None if the List is empty.
+   *
+   * @example
+   * // Creating a list of orders
+   * const orderList = List.of({ total: 30 }, { total: 12 });
+   *
+   * // Computing the revenue and the largest order at once
+   * const report = orderList.aggregate({
+   *   revenue: { initialValue: 0, reducer: (sum, order) => sum + order.total },
+   *   largest: { initialValue: 0, reducer: (max, order) => Math.max(max, order.total) },
+   * });
+   *
+   * console.log(report);  // Some({ revenue: 42, largest: 30 })
+   */
+  aggregate<A extends Record<string, unknown>>(
+    aggregators: { [P in keyof A]: Aggregator<T, A[P]> },
+  ): Option<A> {
+    if (this.#vector.size === 0) return None;
+    const names = Object.keys(aggregators) as (keyof A)[];
+    const result = {} as A;
+    for (const name of names) {
+      result[name] = aggregators[name].initialValue;
+    }
+    for (const item of this.#vector) {
+      for (const name of names) {
+        result[name] = aggregators[name].reducer(result[name], item);
+      }
+    }
+    return Some(result);
+  }
+
+  /**
+   * Adds up the numbers of the List.
+   *
+   * @returns {Option<number>} An Option containing the sum, or None if the List is empty.
+   *
+   * @example
+   * console.log(List.of(1, 2, 3).sum());  // Some(6)
+   * console.log(List.empty<number>().sum().unwrapOr(0));  // 0
+   */
+  sum(this: List<number>): Option<number> {
+    return this.sumBy((item) => item);
+  }
+
+  /**
+   * Adds up a number derived from each element of the List.
+   *
+   * @param {(item: T) => number} fn - A function that derives the number to add from each element.
+   * @returns {Option<number>} An Option containing the sum of the derived numbers, or None if the List is empty.
+   *
+   * @example
+   * // Creating a list of orders
+   * const orderList = List.of({ total: 30 }, { total: 12 });
+   *
+   * console.log(orderList.sumBy((order) => order.total));  // Some(42)
+   */
+  sumBy(fn: (item: T) => number): Option<number> {
+    if (this.#vector.size === 0) return None;
+    let sum = 0;
+    for (const item of this.#vector) {
+      sum += fn(item);
+    }
+    return Some(sum);
+  }
+
+  /**
+   * Computes the arithmetic mean of the numbers of the List.
+   *
+   * @returns {Option<number>} An Option containing the mean, or None if the List is empty.
+   *
+   * @example
+   * console.log(List.of(1, 2, 6).average());  // Some(3)
+   * console.log(List.empty<number>().average());  // None
+   */
+  average(this: List<number>): Option<number> {
+    return this.sum().map((sum) => sum / this.#vector.size);
+  }
+
+  /**
+   * Computes the median of the numbers of the List. With an even number of elements,
+   * the median is the mean of the two middle ones.
+   *
+   * @returns {Option<number>} An Option containing the median, or None if the List is empty.
+   *
+   * @example
+   * console.log(List.of(3, 1, 2).median());  // Some(2)
+   * console.log(List.of(4, 1, 3, 2).median());  // Some(2.5)
+   */
+  median(this: List<number>): Option<number> {
+    return this.percentile(50);
+  }
+
+  /**
+   * Computes a percentile of the numbers of the List, interpolating linearly between the two closest ranks.
+   *
+   * @param {number} p - The percentile to compute, between 0 and 100.
+   * @returns {Option<number>} An Option containing the percentile, or None if the List is empty.
+   * @throws {RangeError} If the percentile is not between 0 and 100.
+   *
+   * @example
+   * // Creating a list of response times
+   * const latencyList = List.of(10, 20, 30, 40, 50);
+   *
+   * console.log(latencyList.percentile(90));  // Some(46)
+   * console.log(latencyList.percentile(0));  // Some(10)
+   */
+  percentile(this: List<number>, p: number): Option<number> {
+    if (!(p >= 0 && p <= 100)) {
+      raise(new RangeError(`Invalid percentile : ${p}`));
+    }
+    if (this.#vector.size === 0) return None;
+    const sorted = this.toArray().sort(byNumber);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return Some(
+      sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower),
+    );
+  }
+
   /**
    * Returns a new List containing a portion of the original List.
    *
@@ -791,7 +1391,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(slicedList.toArray());  // [2, 3, 4]
    */
   slice(start?: number, end?: number): List<T> {
-    return new List(this.#array.slice(start, end));
+    return new List(this.#vector.slice(start, end));
   }
 
   /**
@@ -812,7 +1412,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(flatMappedList.toArray());  // ['a', 'p', 'p', 'l', 'e', 'b', 'a', 'n', 'a', 'n', 'a', 'c', 'h', 'e', 'r', 'r', 'y']
    */
   flatMap<U extends Defined>(fn: (item: T) => U[]): List<U> {
-    return new List(this.#array.flatMap(fn));
+    return new List(this.toArray().flatMap(fn));
   }
 
   /**
@@ -836,7 +1436,7 @@ export class List<T extends Defined> implements Iterable<T> {
     const matching = [];
     const nonMatching = [];
 
-    for (const item of this.#array) {
+    for (const item of this.#vector) {
       if (predicate(item)) {
         matching.push(item);
       } else {
@@ -867,7 +1467,7 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(nameAgePairs.toArray());  // [['Alice', 25], ['Bob', 30], ['Charlie', 35]]
    */
   zip<U extends Defined>(otherList: List<U>): List<[T, U]> {
-    const thisArray = this.#array;
+    const thisArray = this.toArray();
     const otherArray = otherList.toArray();
     const zippedArray: [T, U][] = [];
 
@@ -880,51 +1480,616 @@ export class List<T extends Defined> implements Iterable<T> {
   }
 
   /**
-   * Returns a new List containing elements that are common to both the original List and another List.
+   * Splits the List into consecutive chunks of the given size. The last chunk holds the remaining elements.
    *
-   * @param {List<T>} otherList - The other List to find the intersection with.
-   * @returns {List<T>} A new List containing common elements.
+   * @param {number} size - The number of elements in each chunk. Must be a positive integer.
+   * @returns {List<List<T>>} A new List of chunks.
+   * @throws {RangeError} If the size is not a positive integer.
    *
    * @example
-   * // Creating lists of numbers
-   * const list1 = List.of(1, 2, 3, 4, 5);
-   * const list2 = List.of(3, 4, 5, 6, 7);
+   * // Creating a list of ids
+   * const idList = List.of(1, 2, 3, 4, 5);
    *
-   * // Finding the intersection of the lists
-   * const intersectionList = list1.intersection(list2);
+   * // Batching the ids by two
+   * const batches = idList.chunk(2);
    *
-   * console.log(list1.toArray());  // [1, 2, 3, 4, 5]
-   * console.log(list2.toArray());  // [3, 4, 5, 6, 7]
-   * console.log(intersectionList.toArray());  // [3, 4, 5]
+   * console.log(batches.map((batch) => batch.toArray()).toArray());  // [[1, 2], [3, 4], [5]]
    */
-  intersection(otherList: List<T>): List<T> {
-    const otherSet = new Set(otherList.toArray());
-    const intersectionArray = this.#array.filter((item) => otherSet.has(item));
-    return new List(intersectionArray);
+  chunk(size: number): List<List<T>> {
+    return this.windowed(size, size, { partial: true });
   }
 
   /**
-   * Returns a new List containing elements that are in the original List but not in another List.
+   * Creates sliding windows of the given size over the List, moving by `step` elements each time.
+   * Windows shorter than `size` at the end of the List are dropped unless `partial` is set.
    *
-   * @param {List<T>} otherList - The other List to find the difference with.
-   * @returns {List<T>} A new List containing elements from the original List that are not in the other List.
+   * @param {number} size - The number of elements in each window. Must be a positive integer.
+   * @param {number} [step] - The number of elements between the starts of two windows. Must be a positive integer. Default is 1.
+   * @param {{ partial?: boolean }} [options] - Whether to keep the shorter windows at the end of the List.
+   * @returns {List<List<T>>} A new List of windows.
+   * @throws {RangeError} If the size or the step is not a positive integer.
    *
    * @example
-   * // Creating lists of numbers
-   * const list1 = List.of(1, 2, 3, 4, 5);
-   * const list2 = List.of(3, 4, 5, 6, 7);
+   * // Creating a list of numbers
+   * const numberList = List.of(1, 2, 3, 4, 5);
    *
-   * // Finding the difference of the lists
-   * const differenceList = list1.difference(list2);
+   * // Creating windows of three elements
+   * const windows = numberList.windowed(3);
+   * const stepped = numberList.windowed(2, 2, { partial: true });
    *
-   * console.log(list1.toArray());  // [1, 2, 3, 4, 5]
-   * console.log(list2.toArray());  // [3, 4, 5, 6, 7]
-   * console.log(differenceList.toArray());  // [1, 2]
+   * console.log(windows.map((window) => window.toArray()).toArray());  // [[1, 2, 3], [2, 3, 4], [3, 4, 5]]
+   * console.log(stepped.map((window) => window.toArray()).toArray());  // [[1, 2], [3, 4], [5]]
    */
-  difference(otherList: List<T>): List<T> {
-    const otherSet = new Set(otherList.toArray());
-    const differenceArray = this.#array.filter((item) => !otherSet.has(item));
-    return new List(differenceArray);
+  windowed(
+    size: number,
+    step = 1,
+    { partial = false }: { partial?: boolean } = {},
+  ): List<List<T>> {
+    if (!Number.isInteger(size) || size < 1) {
+      raise(new RangeError(`Invalid window size : ${size}`));
+    }
+    if (!Number.isInteger(step) || step < 1) {
+      raise(new RangeError(`Invalid window step : ${step}`));
+    }
+    const length = this.#vector.size;
+    const windows: List<T>[] = [];
+    for (let start = 0; start < length; start += step) {
+      if (start + size > length && !partial) break;
+      windows.push(new List(this.#vector.slice(start, start + size)));
+    }
+    return new List(windows);
+  }
+
+  /**
+   * Creates a List of pairs of adjacent elements.
+   *
+   * @returns {List<[T, T]>} A new List of pairs, with one pair less than the number of elements.
+   *
+   * @example
+   * // Creating a list of readings
+   * const readingList = List.of(10, 12, 15);
+   *
+   * // Computing the deltas between readings
+   * const deltas = readingList.pairwise().map(([prev, next]) => next - prev);
+   *
+   * console.log(deltas.toArray());  // [2, 3]
+   */
+  pairwise(): List<[T, T]> {
+    const array = this.toArray();
+    const pairs: [T, T][] = [];
+    for (let i = 1; i < array.length; i++) {
+      pairs.push([array[i - 1], array[i]]);
+    }
+    return new List(pairs);
+  }
+
+  /**
+   * Computes the running accumulation of the List, like `reduce` but keeping every intermediate result.
+   *
+   * @template U - The type of the accumulated results.
+   * @param {U} initialValue - The initial value of the accumulator, which is not part of the result.
+   * @param {(prev: U, next: T) => U} reducer - A function that combines the accumulator and the current element.
+   * @returns {List<U>} A new List with the accumulated result after each element.
+   *
+   * @example
+   * // Creating a list of amounts
+   * const amountList = List.of(5, 10, 20);
+   *
+   * // Computing the running total
+   * const runningTotal = amountList.scan(0, (sum, amount) => sum + amount);
+   *
+   * console.log(runningTotal.toArray());  // [5, 15, 35]
+   */
+  scan<U extends Defined>(
+    initialValue: U,
+    reducer: (prev: U, next: T) => U,
+  ): List<U> {
+    const results: U[] = [];
+    let acc = initialValue;
+    for (const item of this.#vector) {
+      acc = reducer(acc, item);
+      results.push(acc);
+    }
+    return new List(results);
+  }
+
+  /**
+   * Splits the List in two at the given index. Like `at`, fractional indexes are truncated and negative values count
+   * from the end of the List.
+   *
+   * @param {number} index - The index of the first element of the second List. Can be equal to the length of the List.
+   * @returns {Option<[List<T>, List<T>]>} An Option containing the elements before the index and the elements from the index, or None if the index is out of bounds.
+   *
+   * @example
+   * // Creating a list of letters
+   * const letterList = List.of('a', 'b', 'c', 'd');
+   *
+   * // Splitting the list before the last element
+   * const [init, last] = letterList.splitAt(-1).unwrap();
+   *
+   * console.log(init.toArray());  // ['a', 'b', 'c']
+   * console.log(last.toArray());  // ['d']
+   * console.log(letterList.splitAt(10));  // None
+   */
+  splitAt(index: number): Option<[List<T>, List<T>]> {
+    const at = relativeIndex(index, this.#vector.size);
+    if (at < 0 || at > this.#vector.size) return None;
+    return Some([
+      new List(this.#vector.slice(0, at)),
+      new List(this.#vector.slice(at)),
+    ]);
+  }
+
+  /**
+   * Splits the List in two before the first element that satisfies the predicate.
+   *
+   * @param {(item: T, index: number) => boolean} predicate - The function that tests each element along with its index.
+   * @returns {Option<[List<T>, List<T>]>} An Option containing the elements before the match and the elements from the match, or None if no element satisfies the predicate.
+   *
+   * @example
+   * // Creating a list of log lines
+   * const lineList = List.of('header', '---', 'body');
+   *
+   * // Splitting the list at the separator
+   * const [header, body] = lineList.splitWhen((line) => line === '---').unwrap();
+   *
+   * console.log(header.toArray());  // ['header']
+   * console.log(body.toArray());  // ['---', 'body']
+   */
+  splitWhen(
+    predicate: (item: T, index: number) => boolean,
+  ): Option<[List<T>, List<T>]> {
+    const index = this.toArray().findIndex((item, index) =>
+      predicate(item, index)
+    );
+    return index === -1 ? None : this.splitAt(index);
+  }
+
+  /**
+   * Splits the List into the longest prefix of elements that satisfy the predicate and the remaining elements.
+   *
+   * @param {(item: T, index: number) => boolean} predicate - The function that tests each element along with its index.
+   * @returns {[List<T>, List<T>]} A pair with the same elements as `takeWhile` and the remaining elements.
+   *
+   * @example
+   * // Creating a list of numbers
+   * const numberList = List.of(1, 2, 5, 1);
+   *
+   * // Splitting off the small leading numbers
+   * const [small, rest] = numberList.span((n) => n < 3);
+   *
+   * console.log(small.toArray());  // [1, 2]
+   * console.log(rest.toArray());  // [5, 1]
+   */
+  span(predicate: (item: T, index: number) => boolean): [List<T>, List<T>] {
+    const prefix = this.takeWhile(predicate);
+    return [prefix, this.drop(prefix.#vector.size)];
+  }
+
+  /**
+   * Alternates the elements of the List with the elements of another List. The remaining elements of the longer List are appended.
+   *
+   * @param {List<T>} otherList - The List to interleave with.
+   * @returns {List<T>} A new List with the elements of both Lists alternated.
+   *
+   * @example
+   * // Creating lists of letters
+   * const list1 = List.of('a', 'b', 'c');
+   * const list2 = List.of('x', 'y');
+   *
+   * console.log(list1.interleave(list2).toArray());  // ['a', 'x', 'b', 'y', 'c']
+   */
+  interleave(otherList: List<T>): List<T> {
+    const thisArray = this.toArray();
+    const otherArray = otherList.toArray();
+    const interleaved: T[] = [];
+    for (let i = 0; i < Math.max(thisArray.length, otherArray.length); i++) {
+      if (i < thisArray.length) interleaved.push(thisArray[i]);
+      if (i < otherArray.length) interleaved.push(otherArray[i]);
+    }
+    return new List(interleaved);
+  }
+
+  /**
+   * Inserts a separator between every two elements of the List.
+   *
+   * @param {T} separator - The element to insert between the elements.
+   * @returns {List<T>} A new List with the separator between the elements.
+   *
+   * @example
+   * // Creating a list of words
+   * const wordList = List.of('a', 'b', 'c');
+   *
+   * console.log(wordList.intersperse(',').toArray());  // ['a', ',', 'b', ',', 'c']
+   */
+  intersperse(separator: T): List<T> {
+    return this.flatMap((item) => [separator, item]).drop(1);
+  }
+
+  /**
+   * Transposes a List of Lists, turning rows into columns. Rows shorter than the others are skipped in the missing columns.
+   *
+   * @template U - The type of elements in the inner Lists.
+   * @returns {List<List<U>>} A new List with the columns of the original List.
+   *
+   * @example
+   * // Creating a matrix
+   * const matrix = List.of(List.of(1, 2, 3), List.of(4, 5, 6));
+   *
+   * console.log(matrix.transpose().map((row) => row.toArray()).toArray());  // [[1, 4], [2, 5], [3, 6]]
+   */
+  transpose<U extends Defined>(this: List<List<U>>): List<List<U>> {
+    const rows = this.toArray().map((row) => row.toArray());
+    const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const columns: List<U>[] = [];
+    for (let i = 0; i < width; i++) {
+      columns.push(
+        new List(rows.filter((row) => i < row.length).map((row) => row[i])),
+      );
+    }
+    return new List(columns);
+  }
+
+  /**
+   * Checks if the List contains an element equal to the given one.
+   *
+   * @param {T} item - The element to look for.
+   * @param {(a: T, b: T) => boolean} [comparator] - A function that tells if two elements are equal. Default is `equals`.
+   * @returns {boolean} true if the List contains the element, false otherwise.
+   *
+   * @example
+   * // Creating a list of options
+   * const optionList = List.of(Some(1), None);
+   *
+   * console.log(optionList.includes(Some(1)));  // true
+   * console.log(optionList.includes(Some(2)));  // false
+   */
+  includes(
+    item: T,
+    comparator: (a: T, b: T) => boolean = equals,
+  ): boolean {
+    for (const other of this.#vector) {
+      if (comparator(other, item)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns a new List containing elements that are common to both the original List and another List.
+   *
+   * @param {List<T>} otherList - The other List to find the intersection with.
+   * @param {(a: T, b: T) => boolean} [comparator] - A function that tells if two elements are equal. Default is `equals`.
+   * @returns {List<T>} A new List containing common elements.
+   *
+   * @example
+   * // Creating lists of numbers
+   * const list1 = List.of(1, 2, 3, 4, 5);
+   * const list2 = List.of(3, 4, 5, 6, 7);
+   *
+   * // Finding the intersection of the lists
+   * const intersectionList = list1.intersection(list2);
+   *
+   * console.log(list1.toArray());  // [1, 2, 3, 4, 5]
+   * console.log(list2.toArray());  // [3, 4, 5, 6, 7]
+   * console.log(intersectionList.toArray());  // [3, 4, 5]
+   */
+  intersection(
+    otherList: List<T>,
+    comparator?: (a: T, b: T) => boolean,
+  ): List<T> {
+    const other = this.#membership(otherList, comparator);
+    return this.filter((item) => other.has(item));
+  }
+
+  /**
+   * Returns a new List containing elements that are in the original List but not in another List.
+   *
+   * @param {List<T>} otherList - The other List to find the difference with.
+   * @param {(a: T, b: T) => boolean} [comparator] - A function that tells if two elements are equal. Default is `equals`.
+   * @returns {List<T>} A new List containing elements from the original List that are not in the other List.
+   *
+   * @example
+   * // Creating lists of numbers
+   * const list1 = List.of(1, 2, 3, 4, 5);
+   * const list2 = List.of(3, 4, 5, 6, 7);
+   *
+   * // Finding the difference of the lists
+   * const differenceList = list1.difference(list2);
+   *
+   * console.log(list1.toArray());  // [1, 2, 3, 4, 5]
+   * console.log(list2.toArray());  // [3, 4, 5, 6, 7]
+   * console.log(differenceList.toArray());  // [1, 2]
+   */
+  difference(
+    otherList: List<T>,
+    comparator?: (a: T, b: T) => boolean,
+  ): List<T> {
+    const other = this.#membership(otherList, comparator);
+    return this.filter((item) => !other.has(item));
+  }
+
+  /**
+   * Pairs the elements of the List with the elements of another List that have the same key (inner join).
+   * Keys are compared by value with `equals`, so composite keys such as tuples work. The other List is indexed
+   * by key beforehand, so the join runs in O(n + m) plus the number of pairs.
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to join with.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<[T, U]>} A new List with a pair for each matching combination, in the order of this List.
+   *
+   * @example
+   * // Creating lists of users and orders
+   * const userList = List.of({ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' });
+   * const orderList = List.of({ userId: 1, total: 30 }, { userId: 1, total: 12 });
+   *
+   * // Joining the orders to their users
+   * const joined = userList.join(orderList, (user) => user.id, (order) => order.userId);
+   *
+   * console.log(joined.map(([user, order]) => ({ ...user, ...order })).toArray());
+   * // [{ id: 1, name: 'Alice', userId: 1, total: 30 }, { id: 1, name: 'Alice', userId: 1, total: 12 }]
+   */
+  join<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<[T, U]> {
+    const index = otherList.groupBy(rightKey);
+    return this.flatMap((item) =>
+      index.get(leftKey(item)).match(
+        (matches) => matches.map((match): [T, U] => [item, match]).toArray(),
+        () => [],
+      )
+    );
+  }
+
+  /**
+   * Pairs every element of the List with the elements of another List that have the same key (left outer join).
+   * Elements without a match are kept and paired with None.
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to join with.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<[T, Option<U>]>} A new List with a pair for each matching combination, in the order of this List.
+   *
+   * @example
+   * // Creating lists of users and orders
+   * const userList = List.of({ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' });
+   * const orderList = List.of({ userId: 1, total: 30 });
+   *
+   * // Joining the orders to their users, keeping the users without orders
+   * const joined = userList.leftJoin(orderList, (user) => user.id, (order) => order.userId);
+   *
+   * console.log(joined.toArray());
+   * // [[{ id: 1, name: 'Alice' }, Some({ userId: 1, total: 30 })], [{ id: 2, name: 'Bob' }, None]]
+   */
+  leftJoin<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<[T, Option<U>]> {
+    const index = otherList.groupBy(rightKey);
+    return this.flatMap((item) =>
+      index.get(leftKey(item)).match(
+        (matches) =>
+          matches.map((match): [T, Option<U>] => [item, Some(match)]).toArray(),
+        (): [T, Option<U>][] => [[item, None]],
+      )
+    );
+  }
+
+  /**
+   * Pairs every element of another List with the elements of the List that have the same key (right outer join).
+   * Elements of the other List without a match are kept and paired with None.
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to join with.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<[Option<T>, U]>} A new List with a pair for each matching combination, in the order of the other List.
+   *
+   * @example
+   * // Creating lists of users and orders
+   * const userList = List.of({ id: 1, name: 'Alice' });
+   * const orderList = List.of({ userId: 1, total: 30 }, { userId: 3, total: 12 });
+   *
+   * // Joining the users to their orders, keeping the orders without users
+   * const joined = userList.rightJoin(orderList, (user) => user.id, (order) => order.userId);
+   *
+   * console.log(joined.toArray());
+   * // [[Some({ id: 1, name: 'Alice' }), { userId: 1, total: 30 }], [None, { userId: 3, total: 12 }]]
+   */
+  rightJoin<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<[Option<T>, U]> {
+    return otherList
+      .leftJoin<T, K>(this, rightKey, leftKey)
+      .map(([right, left]): [Option<T>, U] => [left, right]);
+  }
+
+  /**
+   * Pairs the elements of both Lists that have the same key, keeping the elements of either List without a match
+   * (full outer join). Unmatched elements are paired with None.
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to join with.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<[Option<T>, Option<U>]>} A new List with the pairs in the order of this List, followed by the unmatched elements of the other List.
+   *
+   * @example
+   * // Creating lists of users and orders
+   * const userList = List.of({ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' });
+   * const orderList = List.of({ userId: 1, total: 30 }, { userId: 3, total: 12 });
+   *
+   * const joined = userList.fullJoin(orderList, (user) => user.id, (order) => order.userId);
+   *
+   * console.log(joined.toArray());
+   * // [
+   * //   [Some({ id: 1, name: 'Alice' }), Some({ userId: 1, total: 30 })],
+   * //   [Some({ id: 2, name: 'Bob' }), None],
+   * //   [None, Some({ userId: 3, total: 12 })]
+   * // ]
+   */
+  fullJoin<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<[Option<T>, Option<U>]> {
+    const matched = this.leftJoin(otherList, leftKey, rightKey)
+      .map(([left, right]): [Option<T>, Option<U>] => [Some(left), right]);
+    const unmatched = otherList.antiJoin<T, K>(this, rightKey, leftKey)
+      .map((right): [Option<T>, Option<U>] => [None, Some(right)]);
+    return new List(matched.#vector.concat(unmatched.#vector));
+  }
+
+  /**
+   * Keeps the elements of the List that have a match in another List (semi join).
+   * Unlike `join`, each element appears at most once and is not paired.
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to look for matches in.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<T>} A new List with the elements that have a match.
+   *
+   * @example
+   * // Finding the users who placed an order
+   * const buyers = userList.semiJoin(orderList, (user) => user.id, (order) => order.userId);
+   */
+  semiJoin<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<T> {
+    const keys = otherList.map(rightKey).toHashSet();
+    return this.filter((item) => keys.has(leftKey(item)));
+  }
+
+  /**
+   * Keeps the elements of the List that have no match in another List (anti join).
+   *
+   * @template U - The type of elements in the other List.
+   * @template K - The type of the join keys.
+   * @param {List<U>} otherList - The List to look for matches in.
+   * @param {(item: T) => K} leftKey - A function that generates the key of each element of this List.
+   * @param {(item: U) => K} rightKey - A function that generates the key of each element of the other List.
+   * @returns {List<T>} A new List with the elements that have no match.
+   *
+   * @example
+   * // Finding the users who never placed an order
+   * const inactive = userList.antiJoin(orderList, (user) => user.id, (order) => order.userId);
+   */
+  antiJoin<U extends Defined, K extends Defined>(
+    otherList: List<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+  ): List<T> {
+    const keys = otherList.map(rightKey).toHashSet();
+    return this.filter((item) => !keys.has(leftKey(item)));
+  }
+
+  /**
+   * Computes the operations turning the List into another List: removals first, then moves and insertions
+   * in the order of the other List, then updates. Moves are kept to a minimum by leaving in place the longest
+   * run of elements that are already in order.
+   * With a key, elements with the same key are the same element, moved or updated when needed;
+   * without a key, elements are compared with `equals` and never updated.
+   *
+   * @template K - The type of the keys.
+   * @param {List<T>} otherList - The List to turn the List into.
+   * @param {{ key?: (item: T) => K }} [options] - A function that generates a key for each element, keys are compared with `equals`.
+   * @returns {List<ListOp<T>>} The operations to apply with `patch`.
+   *
+   * @example
+   * // Creating lists of todos
+   * const local = List.of({ id: 1, done: false }, { id: 2, done: false });
+   * const remote = List.of({ id: 2, done: true }, { id: 3, done: false });
+   *
+   * const ops = local.diff(remote, { key: (todo) => todo.id });
+   *
+   * console.log(ops.toArray());
+   * // [
+   * //   { type: 'remove', index: 0, item: { id: 1, done: false } },
+   * //   { type: 'insert', index: 1, item: { id: 3, done: false } },
+   * //   { type: 'update', index: 0, prev: { id: 2, done: false }, item: { id: 2, done: true } }
+   * // ]
+   * console.log(local.patch(ops));  // Ok(List [{ id: 2, done: true }, { id: 3, done: false }])
+   */
+  diff<K extends Defined>(
+    otherList: List<T>,
+    { key }: { key?: (item: T) => K } = {},
+  ): List<ListOp<T>> {
+    return List.from(
+      diff(this.toArray(), otherList.toArray(), key ?? ((item) => item)),
+    );
+  }
+
+  /**
+   * Applies operations, such as the ones computed by `diff`, one after the other.
+   * Each operation is checked against the List before it is applied: its indexes must be in range
+   * and the elements it removes, moves or updates must be equal to the ones it holds.
+   *
+   * @param {Iterable<ListOp<T>>} ops - The operations to apply.
+   * @returns {Result<List<T>, PatchError<T>>} Ok with the patched List, or Err with the first operation that does not apply.
+   *
+   * @example
+   * const list = List.of('a', 'b');
+   *
+   * list.patch([{ type: 'insert', index: 2, item: 'c' }]);  // Ok(List ['a', 'b', 'c'])
+   * list.patch([{ type: 'remove', index: 0, item: 'z' }]);  // Err(PatchError)
+   */
+  patch(ops: Iterable<ListOp<T>>): Result<List<T>, PatchError<T>> {
+    let vector = this.#vector;
+    let position = 0;
+    // Indexes must be integers within the List, or just past its end for insertions.
+    const within = (index: number, size: number) =>
+      Number.isInteger(index) && index >= 0 && index < size;
+    const holds = (index: number, item: T) =>
+      within(index, vector.size) && equals(vector.get(index), item);
+    for (const op of ops) {
+      switch (op.type) {
+        case "insert":
+          if (!within(op.index, vector.size + 1)) break;
+          vector = vector.insert(op.index, op.item);
+          position++;
+          continue;
+        case "remove":
+          if (!holds(op.index, op.item)) break;
+          vector = vector.remove(op.index);
+          position++;
+          continue;
+        case "move":
+          if (!holds(op.from, op.item)) break;
+          if (!within(op.to, vector.size)) break;
+          vector = vector.remove(op.from).insert(op.to, op.item);
+          position++;
+          continue;
+        case "update":
+          if (!holds(op.index, op.prev)) break;
+          vector = vector.set(op.index, op.item);
+          position++;
+          continue;
+      }
+      return Err(
+        new PatchError<T>({
+          op,
+          position,
+          message:
+            `Cannot apply the ${op.type} operation at position ${position}`,
+        }),
+      );
+    }
+    return Ok(new List(vector));
   }
 
   /**
@@ -942,7 +2107,63 @@ export class List<T extends Defined> implements Iterable<T> {
    * console.log(arrayRepresentation);  // [1, 2, 3, 4, 5]
    */
   toArray(): T[] {
-    return this.#array.slice();
+    return this.#vector.toArray();
+  }
+
+  /**
+   * Converts the List to a lazy Seq. Operations chained on the Seq run in a single pass without intermediate copies.
+   *
+   * @returns {Seq<T>} A Seq over the elements of the List.
+   *
+   * @example
+   * // Creating a list of numbers
+   * const numberList = List.of(1, 2, 3, 4, 5);
+   *
+   * // Doubling the even numbers lazily
+   * const doubled = numberList.toSeq().filter((n) => n % 2 === 0).map((n) => n * 2).toList();
+   *
+   * console.log(doubled.toArray());  // [4, 8]
+   */
+  toSeq(): Seq<T> {
+    return Seq.from(this);
+  }
+
+  /**
+   * Converts the List to a HashSet, dropping duplicate elements.
+   *
+   * @returns {HashSet<T>} A HashSet with the unique elements of the List.
+   *
+   * @example
+   * // Creating a list of tags with duplicates
+   * const tagList = List.of('a', 'b', 'a');
+   *
+   * // Collecting the unique tags
+   * const tagSet = tagList.toHashSet();
+   *
+   * console.log(tagSet.has('a'));  // true
+   * console.log(tagSet.size);  // 2
+   */
+  toHashSet(): HashSet<T> {
+    return HashSet.from(this);
+  }
+
+  /**
+   * Converts the List to a NonEmptyList, whose `firstItem`, `lastItem` and `reduce1` do not need an Option.
+   *
+   * @returns {Option<NonEmptyList<T>>} An Option containing the NonEmptyList, or None if the List is empty.
+   *
+   * @example
+   * // Creating a list of scores
+   * const scoreList = List.of(3, 9, 4);
+   *
+   * // Reading the best score once the list is known to be non-empty
+   * const best = scoreList.toNonEmpty().map((scores) => scores.max());
+   *
+   * console.log(best);  // Some(9)
+   * console.log(List.empty<number>().toNonEmpty());  // None
+   */
+  toNonEmpty(): Option<NonEmptyList<T>> {
+    return this.#vector.size > 0 ? Some(new NonEmptyList(this)) : None;
   }
 
   /**
@@ -980,4 +2201,378 @@ export class List<T extends Defined> implements Iterable<T> {
   toString(): string {
     return this.toArray().toString();
   }
+
+  #membership(
+    otherList: List<T>,
+    comparator?: (a: T, b: T) => boolean,
+  ): { has(item: T): boolean } {
+    if (isFunction(comparator)) {
+      return { has: (item) => otherList.includes(item, comparator) };
+    }
+    return otherList.toHashSet();
+  }
+
+  #extremum<K>(
+    fn: (item: T) => K,
+    comparator: Comparator<K>,
+    wins: (order: number) => boolean,
+  ): Option<T> {
+    let best: { item: T; key: K } | undefined;
+    for (const item of this.#vector) {
+      const key = fn(item);
+      if (!best || wins(comparator(key, best.key))) best = { item, key };
+    }
+    return Option.from(best?.item);
+  }
+}
+
+/**
+ * An immutable List with at least one element. It can be passed wherever a List is expected.
+ * Operations that cannot empty it return a NonEmptyList, and the ones that need an element, such as
+ * `firstItem`, `lastItem`, `reduce1`, `min` and `max`, return it directly instead of an Option.
+ *
+ * `first` and `last` keep returning an Option, as they do on List: an override returning the element itself
+ * would not be assignable to the List method, and code holding the NonEmptyList as a List would get a value
+ * where it expects an Option. Use `firstItem` and `lastItem` instead.
+ */
+export class NonEmptyList<T extends Defined> extends List<T> {
+  /**
+   * Creates a new NonEmptyList from the provided elements.
+   *
+   * @template T - The type of elements in the NonEmptyList.
+   * @param {...[T, ...T[]]} items - The elements to include in the new NonEmptyList, at least one.
+   * @returns {NonEmptyList<T>} A new NonEmptyList containing the provided elements.
+   *
+   * @example
+   * const numbers = NonEmptyList.of(1, 2, 3);
+   */
+  static override of<T extends Defined>(
+    ...items: readonly [T, ...T[]]
+  ): NonEmptyList<T> {
+    return new NonEmptyList(items);
+  }
+
+  /**
+   * Retrieves the first element of the NonEmptyList.
+   *
+   * @returns {T} The first element.
+   *
+   * @example
+   * NonEmptyList.of('a', 'b').firstItem();  // 'a'
+   */
+  firstItem(): T {
+    return this.first().unwrap();
+  }
+
+  /**
+   * Retrieves the last element of the NonEmptyList.
+   *
+   * @returns {T} The last element.
+   *
+   * @example
+   * NonEmptyList.of('a', 'b').lastItem();  // 'b'
+   */
+  lastItem(): T {
+    return this.last().unwrap();
+  }
+
+  /**
+   * Reduces the NonEmptyList to a single value, using the first element as the initial value of the accumulator.
+   *
+   * @param {(prev: T, next: T) => T} reducer - A function that combines the accumulator and the current element.
+   * @returns {T} The final accumulated result.
+   *
+   * @example
+   * NonEmptyList.of(1, 2, 3).reduce1((a, b) => a + b);  // 6
+   */
+  reduce1(reducer: (prev: T, next: T) => T): T {
+    return this.drop(1).reduce(this.firstItem(), reducer);
+  }
+
+  /**
+   * Finds the smallest element. On ties, the first one wins.
+   *
+   * @param {Comparator<T>} [comparator] - The comparator of the elements. Default is `Ord.natural`.
+   * @returns {T} The smallest element.
+   *
+   * @example
+   * NonEmptyList.of(3, 1, 2).min();  // 1
+   */
+  min(comparator: Comparator<T> = natural): T {
+    return this.minBy((item) => item, comparator).unwrap();
+  }
+
+  /**
+   * Finds the largest element. On ties, the first one wins.
+   *
+   * @param {Comparator<T>} [comparator] - The comparator of the elements. Default is `Ord.natural`.
+   * @returns {T} The largest element.
+   *
+   * @example
+   * NonEmptyList.of(3, 1, 2).max();  // 3
+   */
+  max(comparator: Comparator<T> = natural): T {
+    return this.maxBy((item) => item, comparator).unwrap();
+  }
+
+  /**
+   * Creates a deep copy of the NonEmptyList.
+   *
+   * @returns {NonEmptyList<T>} A new NonEmptyList with copies of the elements.
+   */
+  override clone(): NonEmptyList<T> {
+    return new NonEmptyList(super.clone());
+  }
+
+  /**
+   * Appends elements to the end of the NonEmptyList.
+   *
+   * @param {...T[]} items - The elements to append.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements appended.
+   */
+  override append(...items: readonly T[]): NonEmptyList<T> {
+    return new NonEmptyList(super.append(...items));
+  }
+
+  /**
+   * Prepends elements to the beginning of the NonEmptyList.
+   *
+   * @param {...T[]} items - The elements to prepend.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements prepended.
+   */
+  override prepend(...items: readonly T[]): NonEmptyList<T> {
+    return new NonEmptyList(super.prepend(...items));
+  }
+
+  /**
+   * Inserts an element at the specified index, like `List.insert`.
+   *
+   * @param {T} item - The element to insert.
+   * @param {number} at - The index at which to insert the element.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the element inserted.
+   */
+  override insert(item: T, at: number): NonEmptyList<T> {
+    return new NonEmptyList(super.insert(item, at));
+  }
+
+  /**
+   * Inserts an element into a NonEmptyList sorted by the given comparator, keeping it sorted.
+   *
+   * @param {T} item - The element to insert.
+   * @param {Comparator<T>} [comparator] - The comparator the NonEmptyList is sorted by. Default is `Ord.natural`.
+   * @returns {NonEmptyList<T>} A new sorted NonEmptyList with the element inserted.
+   */
+  override insertSorted(
+    item: T,
+    comparator: Comparator<T> = natural,
+  ): NonEmptyList<T> {
+    return new NonEmptyList(super.insertSorted(item, comparator));
+  }
+
+  /**
+   * Creates a new NonEmptyList by applying a function to each element.
+   *
+   * @template U - The type of elements in the new NonEmptyList.
+   * @param {(item: T) => U} fn - A function that transforms each element.
+   * @returns {NonEmptyList<U>} A new NonEmptyList with the transformed elements.
+   *
+   * @example
+   * NonEmptyList.of(1, 2).map((n) => n * 10).firstItem();  // 10
+   */
+  override map<U extends Defined>(fn: (item: T) => U): NonEmptyList<U> {
+    return new NonEmptyList(super.map(fn));
+  }
+
+  /**
+   * Sorts the elements of the NonEmptyList. The sort is stable.
+   *
+   * @param {(a: T, b: T) => number} [fn] - A comparator function that defines the sort order. If not provided, the default sorting order is used.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements sorted.
+   */
+  override sort(fn?: (a: T, b: T) => number): NonEmptyList<T> {
+    return new NonEmptyList(super.sort(fn));
+  }
+
+  /**
+   * Sorts the elements of the NonEmptyList by a key derived from each of them. The sort is stable.
+   *
+   * @template K - The type of the sort keys.
+   * @param {(item: T) => K} fn - A function deriving the sort key of each element.
+   * @param {Comparator<K>} [comparator] - The comparator of the keys. Default is `Ord.natural`.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements sorted by their keys.
+   */
+  override sortBy<K>(
+    fn: (item: T) => K,
+    comparator: Comparator<K> = natural,
+  ): NonEmptyList<T> {
+    return new NonEmptyList(super.sortBy(fn, comparator));
+  }
+
+  /**
+   * Shuffles the elements of the NonEmptyList, like `List.shuffle`.
+   *
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements shuffled.
+   */
+  override shuffle(rng: Random = mathRandom): NonEmptyList<T> {
+    return new NonEmptyList(super.shuffle(rng));
+  }
+
+  /**
+   * Reverses the order of the elements of the NonEmptyList.
+   *
+   * @returns {NonEmptyList<T>} A new NonEmptyList with the elements in reverse order.
+   */
+  override reverse(): NonEmptyList<T> {
+    return new NonEmptyList(super.reverse());
+  }
+
+  /**
+   * Converts the NonEmptyList to a List, dropping the guarantee of an element from its type.
+   *
+   * @returns {List<T>} A List with the elements of the NonEmptyList.
+   */
+  toList(): List<T> {
+    return List.from(this);
+  }
+}
+
+function diff<T extends Defined>(
+  prev: readonly T[],
+  next: readonly T[],
+  key: (item: T) => Defined,
+): ListOp<T>[] {
+  // Elements sharing a key are told apart by their occurrence, so duplicates are paired in order.
+  const identify = (items: readonly T[]) => {
+    let counts = Dict.empty<Defined, number>();
+    return items.map((item): Defined => {
+      const id = key(item);
+      const occurrence = counts.get(id).unwrapOr(0);
+      counts = counts.set(id, occurrence + 1);
+      return [id, occurrence];
+    });
+  };
+  const prevIds = identify(prev);
+  const nextIds = identify(next);
+  const nextIndexes = Dict.from(nextIds.map((id, index) => [id, index]));
+  const ops: ListOp<T>[] = [];
+
+  // Removing from the end keeps the indexes of the remaining removals valid.
+  for (let index = prev.length - 1; index >= 0; index--) {
+    if (!nextIndexes.has(prevIds[index])) {
+      ops.push({ type: "remove", index, item: prev[index] });
+    }
+  }
+
+  // Each kept element is tracked by its index in `next`, along with its value in `prev`.
+  const kept = new Map<number, T>();
+  prevIds.forEach((id, prevIndex) => {
+    nextIndexes.get(id).match(
+      (index) => kept.set(index, prev[prevIndex]),
+      () => {},
+    );
+  });
+  const current = Array.from(kept.keys());
+  const stable = longestIncreasing(current);
+
+  // Every element not in the stable subsequence ends up right after its predecessor in `next`, so it gets a slot
+  // following the slot of that predecessor. Positions are then counted over the occupied slots.
+  const slotOf: number[] = [];
+  const placedSlot: number[] = [];
+  let slots = 0;
+  const reserve = (start: number) => {
+    for (
+      let index = start;
+      index < next.length && !stable.has(index);
+      index++
+    ) {
+      placedSlot[index] = slots++;
+    }
+  };
+  reserve(0);
+  for (const index of current) {
+    slotOf[index] = slots++;
+    if (stable.has(index)) reserve(index + 1);
+  }
+  const occupied = occupancy(slots);
+  for (const index of current) occupied.add(slotOf[index], 1);
+
+  for (let index = 0; index < next.length; index++) {
+    if (stable.has(index)) continue;
+    // The element goes right after its predecessor in `next`, which is already in place.
+    const to = index === 0 ? 0 : occupied.before(slotOf[index - 1] + 1);
+    const place = () => {
+      slotOf[index] = placedSlot[index];
+      occupied.add(slotOf[index], 1);
+    };
+    if (!kept.has(index)) {
+      place();
+      ops.push({ type: "insert", index: to, item: next[index] });
+      continue;
+    }
+    const from = occupied.before(slotOf[index]);
+    const target = from < to ? to - 1 : to;
+    occupied.add(slotOf[index], -1);
+    place();
+    if (target === from) continue;
+    ops.push({ type: "move", from, to: target, item: kept.get(index)! });
+  }
+
+  next.forEach((item, index) => {
+    const prevItem = kept.get(index);
+    if (isDefined(prevItem) && !equals(prevItem, item)) {
+      ops.push({ type: "update", index, prev: prevItem, item });
+    }
+  });
+  return ops;
+}
+
+// Returns the values of the longest strictly increasing subsequence, found by patience sorting in O(n log n).
+function longestIncreasing(values: readonly number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result = new Set<number>();
+  for (
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    index !== -1;
+    index = previous[index]
+  ) {
+    result.add(values[index]);
+  }
+  return result;
+}
+
+// A Fenwick tree counting the occupied slots before a given slot in O(log n).
+function occupancy(size: number) {
+  const tree = new Array<number>(size + 1).fill(0);
+  return {
+    add(slot: number, delta: number): void {
+      for (let i = slot + 1; i <= size; i += i & -i) tree[i] += delta;
+    },
+    before(slot: number): number {
+      let count = 0;
+      for (let i = slot; i > 0; i -= i & -i) count += tree[i];
+      return count;
+    },
+  };
+}
+
+// Truncates the index like `Array.prototype.at` does and counts negative indexes from the end.
+function relativeIndex(index: number, size: number): number {
+  const integer = Math.trunc(index) || 0;
+  return integer < 0 ? size + integer : integer;
 }
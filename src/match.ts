@@ -0,0 +1,394 @@
+import { Option } from "./option.ts";
+import { Result } from "./result.ts";
+import { Defined, PlainObject } from "./types.ts";
+import {
+  isBigInt,
+  isBoolean,
+  isNumber,
+  isObject,
+  isString,
+  raise,
+} from "./util.ts";
+
+const PATTERN = Symbol("footgun/pattern");
+
+declare const KIND: unique symbol;
+declare const CASE: unique symbol;
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+type PatternKind =
+  | { type: "wildcard" }
+  | { type: "guard"; narrowed: unknown; exhaustive: boolean }
+  | { type: "some"; inner: unknown }
+  | { type: "none" }
+  | { type: "ok"; inner: unknown }
+  | { type: "err"; inner: unknown };
+
+/**
+ * Represents a pattern built with the `P` helpers. Any other pattern is either a primitive literal,
+ * compared with `Object.is`, or a plain object whose properties are patterns themselves.
+ * @template K - The kind of the pattern, used to compute narrowing and exhaustiveness.
+ */
+export interface Pattern<K extends PatternKind = PatternKind> {
+  readonly [PATTERN]: {
+    match(value: unknown): boolean;
+    select(value: unknown): unknown;
+  };
+  readonly [KIND]?: K;
+}
+
+export type PatternLike =
+  | Primitive
+  | Pattern
+  | { readonly [key: string]: PatternLike };
+
+type WildcardPattern = Pattern<{ type: "wildcard" }>;
+
+// Option and Result cannot be narrowed by the type system, so the matcher tracks them as
+// unions of cases instead: `Option<T>` becomes `SomeCase<T> | NoneCase`, recursively.
+type SomeCase<T> = { readonly [CASE]: "Some"; readonly value: T };
+type NoneCase = { readonly [CASE]: "None" };
+type OkCase<T> = { readonly [CASE]: "Ok"; readonly value: T };
+type ErrCase<E> = { readonly [CASE]: "Err"; readonly value: E };
+type AnyCase = { readonly [CASE]: string };
+
+type SomeCases<C> = C extends unknown ? SomeCase<C> : never;
+type OkCases<C> = C extends unknown ? OkCase<C> : never;
+type ErrCases<C> = C extends unknown ? ErrCase<C> : never;
+
+type Cases<T> = T extends Option<infer U> ? SomeCases<Cases<U>> | NoneCase
+  : T extends Result<infer U, infer E> ? OkCases<Cases<U>> | ErrCases<Cases<E>>
+  : T;
+
+type Original<C> = C extends SomeCase<infer V>
+  ? Original<V> extends infer O extends Defined ? Option<O> : never
+  : C extends NoneCase ? Option<never>
+  : C extends OkCase<infer V>
+    ? Original<V> extends infer O extends Defined ? Result<O, never> : never
+  : C extends ErrCase<infer V>
+    ? Original<V> extends infer O extends Defined ? Result<never, O> : never
+  : C;
+
+type Unmatched<R> = R extends unknown ? Original<R> : never;
+
+type Refine<A, B> = A extends B ? A : B extends A ? B : never;
+
+type Covers<X, Q> = Q extends Pattern<infer K> ? CoversKind<X, K>
+  : Q extends Primitive ? [X] extends [Q] ? true : false
+  : X extends AnyCase ? false
+  : X extends object ? CoversObject<X, Q>
+  : false;
+
+type CoversKind<X, K> = K extends { type: "wildcard" } ? true
+  : K extends { type: "guard"; narrowed: infer N; exhaustive: true }
+    ? [Original<X>] extends [N] ? true : false
+  : K extends { type: "some"; inner: infer Q }
+    ? X extends SomeCase<infer Y> ? Covers<Y, Q> : false
+  : K extends { type: "none" } ? X extends NoneCase ? true : false
+  : K extends { type: "ok"; inner: infer Q }
+    ? X extends OkCase<infer Y> ? Covers<Y, Q> : false
+  : K extends { type: "err"; inner: infer Q }
+    ? X extends ErrCase<infer Y> ? Covers<Y, Q> : false
+  : false;
+
+type CoversObject<X, Q> = {
+  [K in keyof Q]: K extends keyof X ? AllCovered<X[K], Q[K]> : false;
+}[keyof Q] extends true ? true : false;
+
+type AllCovered<V, Q> = [Uncovered<Cases<V>, Q>] extends [never] ? true
+  : false;
+
+type Uncovered<R, Q> = R extends unknown ? Covers<R, Q> extends true ? never : R
+  : never;
+
+type NarrowCase<X, Q> = Q extends Pattern<infer K> ? NarrowKind<X, K>
+  : Q extends Primitive ? Refine<Original<X>, Q>
+  : X extends AnyCase ? never
+  : X extends object ? Covers<X, Q> extends true ? X : NarrowObject<X, Q>
+  : never;
+
+type NarrowKind<X, K> = K extends { type: "wildcard" } ? Original<X>
+  : K extends { type: "guard"; narrowed: infer N } ? Refine<Original<X>, N>
+  : K extends { type: "some"; inner: infer Q }
+    ? X extends SomeCase<infer Y>
+      ? NarrowCase<Y, Q> extends infer V ? [V] extends [never] ? never
+        : V extends Defined ? Option<V>
+        : never
+      : never
+    : never
+  : K extends { type: "none" } ? X extends NoneCase ? Option<never> : never
+  : K extends { type: "ok"; inner: infer Q }
+    ? X extends OkCase<infer Y>
+      ? NarrowCase<Y, Q> extends infer V ? [V] extends [never] ? never
+        : V extends Defined ? Result<V, never>
+        : never
+      : never
+    : never
+  : K extends { type: "err"; inner: infer Q }
+    ? X extends ErrCase<infer Y>
+      ? NarrowCase<Y, Q> extends infer V ? [V] extends [never] ? never
+        : V extends Defined ? Result<never, V>
+        : never
+      : never
+    : never
+  : never;
+
+type NarrowObject<X, Q> = {
+  [K in keyof X]: K extends keyof Q ? NarrowAll<X[K], Q[K]> : X[K];
+} extends infer O ? true extends {
+    [K in keyof Q]: K extends keyof O ? [O[K]] extends [never] ? true : false
+      : true;
+  }[keyof Q] ? never
+  : O
+  : never;
+
+type NarrowAll<V, Q> = Cases<V> extends infer C
+  ? C extends unknown ? NarrowCase<C, Q> : never
+  : never;
+
+// Option and Result patterns at the top level hand their (nested) payload to the handler.
+type SelectCase<X, Q> = Q extends Pattern<infer K>
+  ? K extends { type: "some"; inner: infer Q2 }
+    ? X extends SomeCase<infer Y> ? SelectCase<Y, Q2> : never
+  : K extends { type: "ok"; inner: infer Q2 }
+    ? X extends OkCase<infer Y> ? SelectCase<Y, Q2> : never
+  : K extends { type: "err"; inner: infer Q2 }
+    ? X extends ErrCase<infer Y> ? SelectCase<Y, Q2> : never
+  : K extends { type: "none" } ? X extends NoneCase ? undefined : never
+  : NarrowCase<X, Q>
+  : NarrowCase<X, Q>;
+
+type Select<R, Q> = R extends unknown ? SelectCase<R, Q> : never;
+
+// The functions of a case: a handler, optionally preceded by a guard, both receiving the selected value.
+type CaseFns<R, Q, U> =
+  | [handler: (value: Select<R, Q>) => U]
+  | [
+    guard: (value: Select<R, Q>) => boolean,
+    handler: (value: Select<R, Q>) => U,
+  ];
+
+/**
+ * Checks if the given value matches a pattern.
+ * @param {PatternLike} pattern - The pattern to test the value against.
+ * @param {unknown} value - The value to test.
+ * @returns {boolean} true if the value matches the pattern, false otherwise.
+ * @function
+ * @example
+ * isMatching({ type: "circle" }, shape); // Returns: true for circles
+ * isMatching(P.some(P.number), Option.Some(42)); // Returns: true
+ */
+export function isMatching(pattern: PatternLike, value: unknown): boolean {
+  if (isPattern(pattern)) return pattern[PATTERN].match(value);
+  if (isObject(pattern)) {
+    if (typeof value !== "object" || value === null) return false;
+    for (const key of Object.keys(pattern)) {
+      if (!isMatching(pattern[key], (value as PlainObject)[key])) return false;
+    }
+    return true;
+  }
+  return Object.is(pattern, value);
+}
+
+function isPattern(input: unknown): input is Pattern {
+  return typeof input === "object" && input !== null && PATTERN in input;
+}
+
+function select(pattern: PatternLike, value: unknown): unknown {
+  return isPattern(pattern) ? pattern[PATTERN].select(value) : value;
+}
+
+function createPattern<K extends PatternKind>(
+  match: (value: unknown) => boolean,
+  selectFn: (value: unknown) => unknown = (value) => value,
+): Pattern<K> {
+  return { [PATTERN]: { match, select: selectFn } };
+}
+
+/**
+ * Represents an ongoing pattern match, created with `match`. Cases are tried in order and the handler of the
+ * first matching case produces the result.
+ * @class
+ * @template I - The type of the matched value.
+ * @template Remaining - The cases that are not handled yet.
+ * @template R - The union of the types returned by the handlers.
+ */
+export class Matcher<I, Remaining, R> {
+  #input: I;
+  #matched = false;
+  #output?: R;
+
+  constructor(input: I) {
+    this.#input = input;
+  }
+
+  /**
+   * Adds a case to the match. If the value matches the pattern (and the optional guard), the handler is called.
+   * Option and Result patterns pass their payload to the handler, any other pattern passes the narrowed value.
+   * @param {Q} pattern - The pattern to match the value against.
+   * @param {(value: Select<Remaining, Q>) => boolean} [guard] - An additional condition. A guarded case never counts towards exhaustiveness.
+   * @param {(value: Select<Remaining, Q>) => U} handler - The function producing the result for this case.
+   * @returns {Matcher} The matcher, with the handled cases removed from the remaining ones.
+   * @method
+   * @template Q - The type of the pattern.
+   * @template U - The type returned by the handler.
+   */
+  with<const Q extends PatternLike, U>(
+    pattern: Q,
+    handler: (value: Select<Remaining, Q>) => U,
+  ): Matcher<I, Uncovered<Remaining, Q>, R | U>;
+  with<const Q extends PatternLike, U>(
+    pattern: Q,
+    guard: (value: Select<Remaining, Q>) => boolean,
+    handler: (value: Select<Remaining, Q>) => U,
+  ): Matcher<I, Remaining, R | U>;
+  with<const Q extends PatternLike, U>(
+    pattern: Q,
+    ...fns: CaseFns<Remaining, Q, U>
+  ):
+    | Matcher<I, Uncovered<Remaining, Q>, R | U>
+    | Matcher<I, Remaining, R | U> {
+    if (this.#matched || !isMatching(pattern, this.#input)) return this;
+    const selected = select(pattern, this.#input) as Select<Remaining, Q>;
+    if (fns.length === 2 && !fns[0](selected)) return this;
+    const handler = fns.length === 2 ? fns[1] : fns[0];
+    const matcher = this as Matcher<I, Remaining, R | U>;
+    matcher.#matched = true;
+    matcher.#output = handler(selected);
+    return matcher;
+  }
+
+  /**
+   * Returns the result of the matching case. Calling it before every case is handled is a compile-time error
+   * listing the remaining cases. If no case matched at runtime, raises an error.
+   * @returns {R} The result of the matching handler.
+   * @method
+   */
+  exhaustive(
+    ..._unhandled: [Remaining] extends [never] ? []
+      : [unhandled: Remaining]
+  ): R {
+    if (!this.#matched) {
+      return raise("called `Matcher.exhaustive` on an unhandled value", {
+        value: this.#input,
+      });
+    }
+    return this.#output as R;
+  }
+
+  /**
+   * Returns the result of the matching case, or the result of the provided function if no case matched.
+   * @param {(value: Unmatched<Remaining>) => U} fn - The function producing the result for unmatched values.
+   * @returns {R | U} The result of the matching handler or of the fallback.
+   * @method
+   * @template U - The type returned by the fallback.
+   */
+  otherwise<U>(fn: (value: Unmatched<Remaining>) => U): R | U {
+    if (this.#matched) return this.#output as R;
+    return fn(this.#input as Unmatched<Remaining>);
+  }
+}
+
+/**
+ * Starts a pattern match over a value. Works with literals, discriminated unions (such as the types inferred from
+ * `z.union` and `z.literal`), Options, Results and nested combinations of them.
+ * @param {I} value - The value to match.
+ * @returns {Matcher<I, Cases<I>, never>} A matcher to add cases to.
+ * @template I - The type of the value.
+ * @function
+ * @example
+ * const area = match(shape)
+ *   .with({ type: "circle" }, (circle) => Math.PI * circle.radius ** 2)
+ *   .with({ type: "square" }, (square) => square.size ** 2)
+ *   .exhaustive();
+ *
+ * const message = match(result) // Result<Option<User>, string>
+ *   .with(P.ok(P.some()), (user) => `Hello ${user.name}`)
+ *   .with(P.ok(P.none), () => "Not found")
+ *   .with(P.err(), (error) => `Error: ${error}`)
+ *   .exhaustive();
+ */
+export function match<I>(value: I): Matcher<I, Cases<I>, never> {
+  return new Matcher(value);
+}
+
+function when<T, N extends T>(
+  predicate: (value: T) => value is N,
+): Pattern<{ type: "guard"; narrowed: N; exhaustive: true }>;
+function when<T>(
+  predicate: (value: T) => boolean,
+): Pattern<{ type: "guard"; narrowed: unknown; exhaustive: false }>;
+function when(
+  predicate: (value: unknown) => boolean,
+): Pattern<{ type: "guard"; narrowed: unknown; exhaustive: boolean }> {
+  return createPattern(predicate);
+}
+
+function some<const Q extends PatternLike = WildcardPattern>(
+  inner?: Q,
+): Pattern<{ type: "some"; inner: Q }> {
+  return createPattern(
+    (value) =>
+      value instanceof Option &&
+      value.isSome() &&
+      (inner === undefined || isMatching(inner, value.unwrap())),
+    (value) =>
+      inner === undefined
+        ? (value as Option<Defined>).unwrap()
+        : select(inner, (value as Option<Defined>).unwrap()),
+  );
+}
+
+function ok<const Q extends PatternLike = WildcardPattern>(
+  inner?: Q,
+): Pattern<{ type: "ok"; inner: Q }> {
+  return createPattern(
+    (value) =>
+      value instanceof Result &&
+      value.isOk() &&
+      (inner === undefined || isMatching(inner, value.unwrap())),
+    (value) =>
+      inner === undefined
+        ? (value as Result<Defined, Defined>).unwrap()
+        : select(inner, (value as Result<Defined, Defined>).unwrap()),
+  );
+}
+
+function err<const Q extends PatternLike = WildcardPattern>(
+  inner?: Q,
+): Pattern<{ type: "err"; inner: Q }> {
+  return createPattern(
+    (value) =>
+      value instanceof Result &&
+      value.isErr() &&
+      (inner === undefined || isMatching(inner, value.unwrapErr())),
+    (value) =>
+      inner === undefined
+        ? (value as Result<Defined, Defined>).unwrapErr()
+        : select(inner, (value as Result<Defined, Defined>).unwrapErr()),
+  );
+}
+
+/**
+ * Pattern helpers to use with `match` and `isMatching`.
+ * - `P._` matches anything.
+ * - `P.string`, `P.number`, `P.boolean` and `P.bigint` match any value of that type.
+ * - `P.when(predicate)` matches when the predicate holds. Type guards narrow and count towards exhaustiveness.
+ * - `P.some(pattern?)` and `P.none` match Options, `P.ok(pattern?)` and `P.err(pattern?)` match Results.
+ */
+export const P = {
+  _: createPattern<{ type: "wildcard" }>(() => true),
+  string: when(isString),
+  number: when(isNumber),
+  boolean: when(isBoolean),
+  bigint: when(isBigInt),
+  when,
+  some,
+  none: createPattern<{ type: "none" }>(
+    (value) => value instanceof Option && value.isNone(),
+    () => undefined,
+  ),
+  ok,
+  err,
+};
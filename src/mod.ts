@@ -1,5 +1,17 @@
 export * from "./option.ts";
 export * from "./result.ts";
+export * from "./async_result.ts";
 export * from "./list.ts";
+export * from "./seq.ts";
+export * from "./async_seq.ts";
+export * from "./dict.ts";
+export * from "./hash_set.ts";
+export * from "./random.ts";
 export * from "./util.ts";
+export * from "./error.ts";
+export * from "./equal.ts";
+export * from "./match.ts";
+export * as Graph from "./graph.ts";
+export * as Ord from "./ord.ts";
+export * as Tree from "./tree.ts";
 export * as z from "./schema.ts";
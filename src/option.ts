@@ -1,7 +1,18 @@
+import { Equals, equals, Hash, hash } from "./equal.ts";
 import { Err, Ok, type Result } from "./result.ts";
-import { Defined } from "./types.ts";
+import { Defined, Maybe } from "./types.ts";
 import { isDefined, raise } from "./util.ts";
 
+type KeyPath<T, P> = P extends readonly [infer K, ...infer Rest] ? readonly [
+    K & keyof NonNullable<T>,
+    ...KeyPath<NonNullable<T>[K & keyof NonNullable<T>], Rest>,
+  ]
+  : readonly [];
+
+type PathValue<T, P> = P extends readonly [infer K, ...infer Rest]
+  ? K extends keyof NonNullable<T> ? PathValue<NonNullable<T>[K], Rest> : never
+  : T;
+
 /**
  * Represents an option type that may or may not have a value.
  * @class
@@ -14,6 +25,34 @@ export class Option<T extends Defined> {
     this.#value = value;
   }
 
+  /**
+   * Iterates the option for use with `yield*` inside `Option.gen`. A Some option returns its value without yielding,
+   * a None option yields itself so the generator can be short-circuited.
+   * @returns {Generator<Option<never>, T, unknown>} A generator returning the contained value.
+   */
+  *[Symbol.iterator](): Generator<Option<never>, T, unknown> {
+    if (isDefined(this.#value)) return this.#value;
+    yield None;
+    return raise("cannot resume `Option` iteration after a `None` value");
+  }
+
+  /**
+   * Checks if the option is equal to another value: both are None, or both are Some with values equal by `equals`.
+   * @param {unknown} other - The value to compare with.
+   * @returns {boolean} true if the other value is an equal option, false otherwise.
+   */
+  [Equals](other: unknown): boolean {
+    return other instanceof Option && equals(this.#value, other.#value);
+  }
+
+  /**
+   * Computes the hash of the option, consistent with its `Equals` method.
+   * @returns {number} The hash of the option.
+   */
+  [Hash](): number {
+    return hash(isDefined(this.#value) ? ["Some", this.#value] : "None");
+  }
+
   /**
    * Creates an Option instance with a defined value.
    * @static
@@ -47,6 +86,107 @@ export class Option<T extends Defined> {
     return new Option(value as NonNullable<T>);
   }
 
+  /**
+   * Creates an Option from a value, keeping it only if it satisfies the given predicate.
+   * @static
+   * @param {T} value - The value to be contained in the option.
+   * @param {(value: NonNullable<T>) => boolean} predicate - The condition the value must satisfy.
+   * @returns {Option<NonNullable<T>>} An Option with the value if it is defined and satisfies the predicate, or None.
+   * @example
+   * const positive = Option.fromPredicate(42, (n) => n > 0); // Returns: Option.Some(42)
+   * const negative = Option.fromPredicate(-1, (n) => n > 0); // Returns: Option.None
+   */
+  static fromPredicate<T, U extends NonNullable<T>>(
+    value: T,
+    predicate: (value: NonNullable<T>) => value is U,
+  ): Option<U>;
+  static fromPredicate<T>(
+    value: T,
+    predicate: (value: NonNullable<T>) => boolean,
+  ): Option<NonNullable<T>>;
+  static fromPredicate<T>(
+    value: T,
+    predicate: (value: NonNullable<T>) => boolean,
+  ): Option<NonNullable<T>> {
+    return Option.from(value).filter(predicate);
+  }
+
+  /**
+   * Creates an Option from the first element of an iterable.
+   * @static
+   * @param {Iterable<T>} iterable - The iterable to take the first element from.
+   * @returns {Option<NonNullable<T>>} An Option with the first element, or None if the iterable is empty or the element is nullable.
+   * @example
+   * const first = Option.fromIterable(new Set(["a", "b"])); // Returns: Option.Some("a")
+   */
+  static fromIterable<T>(iterable: Iterable<T>): Option<NonNullable<T>> {
+    for (const item of iterable) {
+      return Option.from(item);
+    }
+    return None;
+  }
+
+  /**
+   * Creates an Option from a property of a possibly nullable object.
+   * @static
+   * @param {Maybe<T>} obj - The object to read the property from.
+   * @param {K} key - The key of the property.
+   * @returns {Option<NonNullable<T[K]>>} An Option with the property value, or None if the object or the value is nullable.
+   * @example
+   * const name = Option.prop(user, "name"); // Option<string>
+   */
+  static prop<T, K extends keyof T>(
+    obj: Maybe<T>,
+    key: K,
+  ): Option<NonNullable<T[K]>> {
+    return isDefined(obj) ? Option.from(obj[key]) : None;
+  }
+
+  /**
+   * Creates an Option from a nested property of a possibly nullable object. Every key of the path is checked against the type of the object.
+   * @static
+   * @param {T} obj - The object to read the nested property from.
+   * @param {P} path - The keys leading to the nested property.
+   * @returns {Option<NonNullable<PathValue<T, P>>>} An Option with the nested value, or None if any value along the path is nullable.
+   * @example
+   * const city = Option.path(user, ["addresses", 0, "city"]); // Option<string>
+   */
+  static path<T, const P extends readonly PropertyKey[]>(
+    obj: T,
+    path: P & KeyPath<T, P>,
+  ): Option<NonNullable<PathValue<T, P>>> {
+    let current: unknown = obj;
+    for (const key of path) {
+      if (!isDefined(current)) return None;
+      current = (current as Record<PropertyKey, unknown>)[key];
+    }
+    return Option.from(current as PathValue<T, P>);
+  }
+
+  /**
+   * Runs a generator function as a sequence of dependent steps. Inside the generator, `yield*` unwraps a Some option
+   * or stops the whole computation on the first None.
+   * @static
+   * @param {() => Generator<Option<never>, T, unknown>} fn - The generator function describing the computation.
+   * @returns {Option<T>} Some with the returned value, or None if any yielded option was None.
+   * @template T - The type of the returned value.
+   * @example
+   * const street = Option.gen(function* () {
+   *   const user = yield* findUser(id); // Option<User>
+   *   const address = yield* Option.from(user.address);
+   *   return address.street;
+   * }); // Option<string>
+   */
+  static gen<T extends Defined>(
+    fn: () => Generator<Option<never>, T, unknown>,
+  ): Option<T> {
+    const iterator = fn();
+    const next = iterator.next();
+    if (next.done) return Option.Some(next.value);
+    iterator.return(undefined as never);
+    return Option.None;
+  }
+
   /**
    * Matches the option, applying the provided function onSome if the option has a value,
    * or the function onNone if the option is None.
@@ -366,6 +506,89 @@ export class Option<T extends Defined> {
     if (this.isNone() && optb.isSome()) return optb;
     return new Option();
   }
+
+  /**
+   * Combines two options into an option of a pair. If both options have a value (Some), returns Some with both values. Otherwise returns None.
+   * @param {Option<U>} other - The option to zip with.
+   * @returns {Option<[T, U]>} An option containing both values, or None.
+   * @method
+   * @template U - The type of the value inside the other option.
+   * @example
+   * const zipped = Option.Some(1).zip(Option.Some("a")); // Returns: Option.Some([1, "a"])
+   */
+  zip<U extends Defined>(other: Option<U>): Option<[T, U]> {
+    return this.zipWith(other, (a, b) => [a, b]);
+  }
+
+  /**
+   * Combines two options using the provided function. If both options have a value (Some), returns Some with the result of the function. Otherwise returns None.
+   * @param {Option<U>} other - The option to combine with.
+   * @param {(a: T, b: U) => R} fn - The function combining both values.
+   * @returns {Option<R>} An option containing the combined value, or None.
+   * @method
+   * @template U - The type of the value inside the other option.
+   * @template R - The type of the combined value.
+   * @example
+   * const sum = Option.Some(1).zipWith(Option.Some(2), (a, b) => a + b); // Returns: Option.Some(3)
+   */
+  zipWith<U extends Defined, R extends Defined>(
+    other: Option<U>,
+    fn: (a: T, b: U) => R,
+  ): Option<R> {
+    return this.andThen((a) => other.map((b) => fn(a, b)));
+  }
+
+  /**
+   * Splits an option of a pair into a pair of options. If the option is None, returns a pair of None.
+   * @returns {[Option<A>, Option<B>]} A pair of options containing each value of the pair, or a pair of None.
+   * @method
+   * @template A - The type of the first value of the pair.
+   * @template B - The type of the second value of the pair.
+   * @example
+   * const [a, b] = Option.Some([1, "a"]).unzip(); // Returns: [Option.Some(1), Option.Some("a")]
+   */
+  unzip<A extends Defined, B extends Defined>(
+    this: Option<[A, B]>,
+  ): [Option<A>, Option<B>] {
+    return this.match(
+      ([a, b]) => [Option.from(a), Option.from(b)],
+      () => [None, None],
+    );
+  }
+
+  /**
+   * Removes one level of nesting from an option of an option.
+   * @returns {Option<U>} The inner option, or None if the outer option is None.
+   * @method
+   * @template U - The type of the value inside the inner option.
+   * @example
+   * const flat = Option.Some(Option.Some(42)).flatten(); // Returns: Option.Some(42)
+   */
+  flatten<U extends Defined>(this: Option<Option<U>>): Option<U> {
+    return this.andThen((inner) => inner);
+  }
+
+  /**
+   * Converts the option into a nullable value.
+   * @returns {T | null} The value contained in the option, or null if the option is None.
+   * @method
+   * @example
+   * const value = Option.None.toNullable(); // Returns: null
+   */
+  toNullable(): T | null {
+    return this.match((value) => value, () => null);
+  }
+
+  /**
+   * Converts the option into an optional value.
+   * @returns {T | undefined} The value contained in the option, or undefined if the option is None.
+   * @method
+   * @example
+   * const value = Option.Some(42).toUndefined(); // Returns: 42
+   */
+  toUndefined(): T | undefined {
+    return this.match((value) => value, () => undefined);
+  }
 }
 
 export const { Some, None } = Option;
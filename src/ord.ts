@@ -0,0 +1,143 @@
+import { Option } from "./option.ts";
+import { Defined } from "./types.ts";
+
+/**
+ * A function ordering two values: negative when `a` comes first, positive when `b` comes first, 0 when they tie.
+ * @template T - The type of the compared values.
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * The options of a string comparator.
+ */
+export type StringOptions = {
+  /** The locale(s) used to compare the strings. Default is the runtime locale when any option is given. */
+  locale?: string | string[];
+  /** Whether numeric substrings are compared by value, so "2" comes before "10". */
+  numeric?: boolean;
+  /** Which differences between strings count, such as "base" to ignore case and accents. */
+  sensitivity?: "base" | "accent" | "case" | "variant";
+};
+
+/**
+ * Orders values with the `<` and `>` operators, which suits numbers, strings, bigints, booleans and dates.
+ * @param {T} a - The first value.
+ * @param {T} b - The second value.
+ * @returns {number} -1, 1 or 0.
+ * @function
+ * @example
+ * List.of(3, 1, 2).sort(Ord.natural); // List [1, 2, 3]
+ */
+export function natural<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Orders numbers in ascending order. NaN comes last.
+ * @type {Comparator<number>}
+ * @example
+ * List.of(10, 2, 33).sort(Ord.number); // List [2, 10, 33]
+ */
+export const number: Comparator<number> = (a, b) => {
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return Number(Number.isNaN(a)) - Number(Number.isNaN(b));
+  }
+  return natural(a, b);
+};
+
+/**
+ * Orders dates chronologically.
+ * @type {Comparator<Date>}
+ * @example
+ * List.of(new Date(2024, 0), new Date(2023, 0)).sort(Ord.date); // List [2023, 2024]
+ */
+export const date: Comparator<Date> = (a, b) =>
+  number(a.getTime(), b.getTime());
+
+/**
+ * Creates a comparator for strings. Without options, strings are ordered by their UTF-16 code units;
+ * with options, they are compared by an `Intl.Collator`.
+ * @param {StringOptions} [options] - The locale, numeric and sensitivity options.
+ * @returns {Comparator<string>} A comparator for strings.
+ * @function
+ * @example
+ * List.of("item10", "item2").sort(Ord.string({ numeric: true })); // List ['item2', 'item10']
+ * List.of("b", "a", "B").sort(Ord.string({ locale: "en", sensitivity: "base" })); // List ['a', 'b', 'B']
+ */
+export function string(options?: StringOptions): Comparator<string> {
+  if (!options) return natural;
+  const { locale, ...collatorOptions } = options;
+  return new Intl.Collator(locale, collatorOptions).compare;
+}
+
+/**
+ * Creates a comparator ordering values by a key derived from each of them.
+ * @param {(item: T) => K} fn - A function deriving the key of each value.
+ * @param {Comparator<K>} [comparator] - The comparator of the keys. Default is `natural`.
+ * @returns {Comparator<T>} A comparator ordering the values by their keys.
+ * @function
+ * @example
+ * const byAge = Ord.by((user: User) => user.age);
+ * const byName = Ord.by((user: User) => user.name, Ord.string({ locale: "en" }));
+ */
+export function by<T, K>(
+  fn: (item: T) => K,
+  comparator: Comparator<K> = natural,
+): Comparator<T> {
+  return (a, b) => comparator(fn(a), fn(b));
+}
+
+/**
+ * Reverses the order of a comparator.
+ * @param {Comparator<T>} comparator - The comparator to reverse.
+ * @returns {Comparator<T>} A comparator ordering values in the opposite direction.
+ * @function
+ * @example
+ * List.of(1, 3, 2).sort(Ord.reverse(Ord.number)); // List [3, 2, 1]
+ */
+export function reverse<T>(comparator: Comparator<T>): Comparator<T> {
+  return (a, b) => comparator(b, a);
+}
+
+/**
+ * Creates a comparator for Options. Some values are ordered by the given comparator and None values are placed
+ * before or after all of them.
+ * @param {Comparator<T>} comparator - The comparator of the contained values.
+ * @param {"noneFirst" | "noneLast"} [placement] - Where None values go. Default is "noneFirst".
+ * @returns {Comparator<Option<T>>} A comparator for Options.
+ * @function
+ * @example
+ * List.of(Some(2), None, Some(1)).sort(Ord.option(Ord.number, "noneLast")); // List [Some(1), Some(2), None]
+ */
+export function option<T extends Defined>(
+  comparator: Comparator<T>,
+  placement: "noneFirst" | "noneLast" = "noneFirst",
+): Comparator<Option<T>> {
+  const none = placement === "noneFirst" ? -1 : 1;
+  return (a, b) =>
+    a.match(
+      (x) => b.match((y) => comparator(x, y), () => -none),
+      () => b.isSome() ? none : 0,
+    );
+}
+
+/**
+ * Combines comparators into one, using each of them to break the ties of the previous ones.
+ * @param {...Comparator<T>[]} comparators - The comparators, from the most to the least significant.
+ * @returns {Comparator<T>} A comparator applying the comparators in order.
+ * @function
+ * @example
+ * const byLastThenFirstName = Ord.combine(
+ *   Ord.by((user: User) => user.lastName),
+ *   Ord.by((user: User) => user.firstName),
+ * );
+ */
+export function combine<T>(...comparators: Comparator<T>[]): Comparator<T> {
+  return (a, b) => {
+    for (const comparator of comparators) {
+      const order = comparator(a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+}
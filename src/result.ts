@@ -1,6 +1,16 @@
+import { AsyncResult } from "./async_result.ts";
+import { Equals, equals, Hash, hash } from "./equal.ts";
+import { isTagged, type Tagged, type TagOf } from "./error.ts";
+import { List } from "./list.ts";
 import { None, type Option, Some } from "./option.ts";
 import { Defined } from "./types.ts";
-import { raise } from "./util.ts";
+import { isFunction, isIterable, raise, toError } from "./util.ts";
+
+type AnyResult = Result<Defined, Defined>;
+
+export type InferOk<R> = R extends Result<infer T, Defined> ? T : never;
+
+export type InferErr<R> = R extends Result<Defined, infer E> ? E : never;
 
 /**
  * Represents a result type that can be either an Ok with a value or an Err with an error.
@@ -17,6 +27,35 @@ export class Result<T extends Defined, E extends Defined> {
     this.#value = value;
   }
 
+  /**
+   * Iterates the result for use with `yield*` inside `Result.gen`. An Ok result returns its value without yielding,
+   * an Err result yields itself so the generator can be short-circuited.
+   * @returns {Generator<Result<never, E>, T, unknown>} A generator returning the Ok value.
+   */
+  *[Symbol.iterator](): Generator<Result<never, E>, T, unknown> {
+    if (this.#ok) return this.#value as T;
+    yield this as unknown as Result<never, E>;
+    return raise("cannot resume `Result` iteration after an `Err` value");
+  }
+
+  /**
+   * Checks if the result is equal to another value: both are Ok, or both are Err, with values equal by `equals`.
+   * @param {unknown} other - The value to compare with.
+   * @returns {boolean} true if the other value is an equal result, false otherwise.
+   */
+  [Equals](other: unknown): boolean {
+    return other instanceof Result && this.#ok === other.#ok &&
+      equals(this.#value, other.#value);
+  }
+
+  /**
+   * Computes the hash of the result, consistent with its `Equals` method.
+   * @returns {number} The hash of the result.
+   */
+  [Hash](): number {
+    return hash([this.#ok ? "Ok" : "Err", this.#value]);
+  }
+
   /**
    * Creates a Result instance with an Ok value.
    * @static
@@ -41,6 +80,251 @@ export class Result<T extends Defined, E extends Defined> {
     return new Result<never, E>(false, error);
   }
 
+  /**
+   * Runs a function and captures its outcome in a Result. A returned value becomes Ok, a thrown value becomes Err.
+   * Without a mapper, thrown values that are not Error instances are wrapped in an Error whose cause is the thrown value.
+   * @static
+   * @param {() => T} fn - The function to run.
+   * @param {(cause: unknown) => E} [mapErr] - A function converting the thrown value into a typed error.
+   * @returns {Result<T, E>} Ok with the returned value, or Err with the (mapped) thrown value.
+   * @template T - The type of the returned value.
+   * @template E - The type of the mapped error.
+   * @example
+   * const json = Result.try(() => JSON.parse(text)); // Result<any, Error>
+   * const parsed = Result.try(() => JSON.parse(text), () => "invalid json"); // Result<any, string>
+   */
+  static try<T extends Defined>(fn: () => T): Result<T, Error>;
+  static try<T extends Defined, E extends Defined>(
+    fn: () => T,
+    mapErr: (cause: unknown) => E,
+  ): Result<T, E>;
+  static try<T extends Defined, E extends Defined>(
+    fn: () => T,
+    mapErr?: (cause: unknown) => E,
+  ): Result<T, E | Error> {
+    try {
+      return Ok(fn());
+    } catch (cause) {
+      return Err(isFunction(mapErr) ? mapErr(cause) : toError(cause));
+    }
+  }
+
+  /**
+   * Converts a promise into an AsyncResult. A fulfilled promise becomes Ok, a rejected promise becomes Err.
+   * Without a mapper, rejection reasons that are not Error instances are wrapped in an Error whose cause is the reason.
+   * @static
+   * @param {PromiseLike<T>} promise - The promise to convert.
+   * @param {(cause: unknown) => E} [mapErr] - A function converting the rejection reason into a typed error.
+   * @returns {AsyncResult<T, E>} An AsyncResult resolving to Ok with the value, or Err with the (mapped) rejection reason.
+   * @template T - The type of the fulfilled value.
+   * @template E - The type of the mapped error.
+   * @example
+   * const response = Result.fromPromise(fetch(url)); // AsyncResult<Response, Error>
+   * const body = Result.fromPromise(response.json(), () => "invalid body"); // AsyncResult<any, string>
+   */
+  static fromPromise<T extends Defined>(
+    promise: PromiseLike<T>,
+  ): AsyncResult<T, Error>;
+  static fromPromise<T extends Defined, E extends Defined>(
+    promise: PromiseLike<T>,
+    mapErr: (cause: unknown) => E,
+  ): AsyncResult<T, E>;
+  static fromPromise<T extends Defined, E extends Defined>(
+    promise: PromiseLike<T>,
+    mapErr?: (cause: unknown) => E,
+  ): AsyncResult<T, E | Error> {
+    return AsyncResult.from(
+      Promise.resolve(promise).then(
+        (value) => Ok(value),
+        (cause) => Err(isFunction(mapErr) ? mapErr(cause) : toError(cause)),
+      ),
+    );
+  }
+
+  /**
+   * Wraps a throwing function into a function that returns a Result instead of throwing.
+   * @static
+   * @param {(...args: A) => T} fn - The function to wrap.
+   * @param {(cause: unknown) => E} [mapErr] - A function converting the thrown value into a typed error.
+   * @returns {(...args: A) => Result<T, E>} A function with the same parameters that never throws.
+   * @template A - The parameter types of the function.
+   * @template T - The type of the returned value.
+   * @template E - The type of the mapped error.
+   * @example
+   * const safeParse = Result.wrap(JSON.parse);
+   * const result = safeParse("{"); // Returns: Result.Err(SyntaxError)
+   */
+  static wrap<A extends unknown[], T extends Defined>(
+    fn: (...args: A) => T,
+  ): (...args: A) => Result<T, Error>;
+  static wrap<A extends unknown[], T extends Defined, E extends Defined>(
+    fn: (...args: A) => T,
+    mapErr: (cause: unknown) => E,
+  ): (...args: A) => Result<T, E>;
+  static wrap<A extends unknown[], T extends Defined, E extends Defined>(
+    fn: (...args: A) => T,
+    mapErr?: (cause: unknown) => E,
+  ): (...args: A) => Result<T, E | Error> {
+    return (...args) =>
+      isFunction(mapErr)
+        ? Result.try(() => fn(...args), mapErr)
+        : Result.try(() => fn(...args));
+  }
+
+  /**
+   * Combines a collection of results into a single result. If every result is Ok, returns Ok with all the values
+   * in the same shape as the input (List, array, tuple or object). Otherwise returns the first Err found.
+   * @static
+   * @param {List<Result<T, E>> | Iterable<Result<T, E>> | Record<string, Result<T, E>>} results - The results to combine.
+   * @returns {Result} Ok with the collected values, or the first Err.
+   * @example
+   * Result.all(List.of(Ok(1), Ok(2))); // Returns: Result.Ok(List.of(1, 2))
+   * Result.all([Ok(1), Ok("two")]); // Returns: Result.Ok([1, "two"]) typed as [number, string]
+   * Result.all({ id: Ok(1), name: Err("missing name") }); // Returns: Result.Err("missing name")
+   */
+  static all<T extends Defined, E extends Defined>(
+    results: List<Result<T, E>>,
+  ): Result<List<T>, E>;
+  static all<const R extends readonly AnyResult[]>(
+    results: R,
+  ): Result<{ -readonly [K in keyof R]: InferOk<R[K]> }, InferErr<R[number]>>;
+  static all<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): Result<T[], E>;
+  static all<R extends Record<string, AnyResult>>(
+    results: R,
+  ): Result<{ [K in keyof R]: InferOk<R[K]> }, InferErr<R[keyof R]>>;
+  static all(
+    results: Iterable<AnyResult> | Record<string, AnyResult>,
+  ): Result<Defined, Defined> {
+    if (isIterable(results)) {
+      const values: Defined[] = [];
+      for (const result of results) {
+        if (result.#ok) {
+          values.push(result.#value);
+        } else {
+          return result;
+        }
+      }
+      return Ok(results instanceof List ? List.from(values) : values);
+    }
+    const values: Record<string, Defined> = {};
+    for (const [key, result] of Object.entries(results)) {
+      if (result.#ok) {
+        values[key] = result.#value;
+      } else {
+        return result;
+      }
+    }
+    return Ok(values);
+  }
+
+  /**
+   * Combines a collection of results into a single result, gathering every error instead of stopping at the first one.
+   * If every result is Ok, returns Ok with all the values. Otherwise returns Err with all the errors, in order.
+   * @static
+   * @param {List<Result<T, E>> | Iterable<Result<T, E>>} results - The results to combine.
+   * @returns {Result<List<T>, List<E>> | Result<T[], E[]>} Ok with every value, or Err with every error.
+   * @example
+   * Result.collectErrors([Ok(1), Err("a"), Err("b")]); // Returns: Result.Err(["a", "b"])
+   */
+  static collectErrors<T extends Defined, E extends Defined>(
+    results: List<Result<T, E>>,
+  ): Result<List<T>, List<E>>;
+  static collectErrors<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): Result<T[], E[]>;
+  static collectErrors<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): Result<List<T> | T[], List<E> | E[]> {
+    const [values, errors] = Result.partition(Array.from(results));
+    const isList = results instanceof List;
+    if (errors.length > 0) return Err(isList ? List.from(errors) : errors);
+    return Ok(isList ? List.from(values) : values);
+  }
+
+  /**
+   * Returns the first Ok result of a collection. If there is no Ok result, returns Err with every error, in order.
+   * @static
+   * @param {List<Result<T, E>> | Iterable<Result<T, E>>} results - The results to search.
+   * @returns {Result<T, List<E>> | Result<T, E[]>} The first Ok result, or Err with every error.
+   * @example
+   * Result.any([Err("a"), Ok(1), Ok(2)]); // Returns: Result.Ok(1)
+   * Result.any([Err("a"), Err("b")]); // Returns: Result.Err(["a", "b"])
+   */
+  static any<T extends Defined, E extends Defined>(
+    results: List<Result<T, E>>,
+  ): Result<T, List<E>>;
+  static any<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): Result<T, E[]>;
+  static any<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): Result<T, List<E> | E[]> {
+    const errors: E[] = [];
+    for (const result of results) {
+      if (result.#ok) return Ok(result.#value as T);
+      errors.push(result.#value as E);
+    }
+    return Err(results instanceof List ? List.from(errors) : errors);
+  }
+
+  /**
+   * Splits a collection of results into the Ok values and the Err errors, preserving their order.
+   * @static
+   * @param {List<Result<T, E>> | Iterable<Result<T, E>>} results - The results to split.
+   * @returns {[List<T>, List<E>] | [T[], E[]]} A pair with every Ok value and every Err error.
+   * @example
+   * const [oks, errs] = Result.partition([Ok(1), Err("a"), Ok(2)]); // oks: [1, 2], errs: ["a"]
+   */
+  static partition<T extends Defined, E extends Defined>(
+    results: List<Result<T, E>>,
+  ): [List<T>, List<E>];
+  static partition<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): [T[], E[]];
+  static partition<T extends Defined, E extends Defined>(
+    results: Iterable<Result<T, E>>,
+  ): [List<T>, List<E>] | [T[], E[]] {
+    const values: T[] = [];
+    const errors: E[] = [];
+    for (const result of results) {
+      if (result.#ok) {
+        values.push(result.#value as T);
+      } else {
+        errors.push(result.#value as E);
+      }
+    }
+    if (results instanceof List) return [List.from(values), List.from(errors)];
+    return [values, errors];
+  }
+
+  /**
+   * Runs a generator function as a sequence of dependent steps. Inside the generator, `yield*` unwraps an Ok result
+   * or stops the whole computation on the first Err, which becomes the returned result.
+   * The error type is the union of the error types of every yielded result.
+   * @static
+   * @param {() => Generator<Y, T, unknown>} fn - The generator function describing the computation.
+   * @returns {Result<T, InferErr<Y>>} Ok with the returned value, or the first Err encountered.
+   * @template Y - The type of the results yielded by the generator.
+   * @template T - The type of the returned value.
+   * @example
+   * const sum = Result.gen(function* () {
+   *   const a = yield* parseNumber("1"); // Result<number, ParseError>
+   *   const b = yield* divide(a, 2); // Result<number, DivisionError>
+   *   return a + b;
+   * }); // Result<number, ParseError | DivisionError>
+   */
+  static gen<Y extends Result<never, Defined>, T extends Defined>(
+    fn: () => Generator<Y, T, unknown>,
+  ): Result<T, InferErr<Y>> {
+    const iterator = fn();
+    const next = iterator.next();
+    if (next.done) return Ok(next.value);
+    iterator.return(undefined as never);
+    return next.value as unknown as Result<never, InferErr<Y>>;
+  }
+
   /**
    * Matches the result, applying the provided function onOk if the result is Ok, or onErr if the result is Err.
    * @param {(value: T) => U} onOk - The function to apply if the result is Ok.
@@ -396,6 +680,75 @@ export class Result<T extends Defined, E extends Defined> {
   unwrapOrElse(fn: (error: E) => T): T {
     return this.match((value) => value, fn);
   }
+
+  /**
+   * Recovers from one specific tagged error. If the result is Err and its error has the given `_tag`, applies the
+   * provided function to it. Any other error keeps propagating, with the handled variant removed from its type.
+   * @param {K} tag - The `_tag` of the error variant to recover from.
+   * @param {(error: Extract<E, Tagged<K>>) => Result<U, F>} fn - The function to apply to the matching error.
+   * @returns {Result<T | U, Exclude<E, Tagged<K>> | F>} The original result, or the result of the function for the matching error.
+   * @method
+   * @template K - The tag of the handled error variant.
+   * @template U - The type of the Ok value returned by the handler.
+   * @template F - The type of the Err error returned by the handler.
+   * @example
+   * const user = findUser(id) // Result<User, NotFound | Forbidden>
+   *   .catchTag("NotFound", () => Result.Ok(guestUser)); // Result<User, Forbidden>
+   */
+  catchTag<K extends TagOf<E>, U extends Defined, F extends Defined = never>(
+    tag: K,
+    fn: (error: Extract<E, Tagged<K>>) => Result<U, F>,
+  ): Result<T | U, Exclude<E, Tagged<K>> | F> {
+    return this.match<Result<T | U, Exclude<E, Tagged<K>> | F>>(
+      () => this as unknown as Result<T, never>,
+      (error) =>
+        isTagged(error, tag)
+          ? fn(error as Extract<E, Tagged<K>>)
+          : this as unknown as Result<never, Exclude<E, Tagged<K>>>,
+    );
+  }
+
+  /**
+   * Matches the result, applying onOk if the result is Ok, or the handler registered for the `_tag` of the error if the result is Err.
+   * Every error variant must have a handler, so adding a variant to `E` is a compile-time error until it is handled.
+   * @param {(value: T) => U} onOk - The function to apply if the result is Ok.
+   * @param {{ [K in TagOf<E>]: (error: Extract<E, Tagged<K>>) => U }} handlers - The functions to apply to each error variant, keyed by tag.
+   * @returns {U} The result of applying the appropriate function.
+   * @method
+   * @template U - The type of the result returned by the functions.
+   * @example
+   * const status = findUser(id).matchTag((user) => 200, {
+   *   NotFound: () => 404,
+   *   Forbidden: () => 403,
+   * });
+   */
+  matchTag<U>(
+    onOk: (value: T) => U,
+    handlers: { [K in TagOf<E>]: (error: Extract<E, Tagged<K>>) => U },
+  ): U {
+    return this.match(onOk, (error) => {
+      if (!isTagged(error)) {
+        return raise(
+          "called `Result.matchTag` on an untagged `Err` value",
+          error,
+        );
+      }
+      const handler = handlers[error._tag as TagOf<E>] as (error: E) => U;
+      return handler(error);
+    });
+  }
+
+  /**
+   * Lifts the result into an AsyncResult so it can be chained with asynchronous functions.
+   * @returns {AsyncResult<T, E>} An AsyncResult resolving to this result.
+   * @method
+   * @example
+   * const okResult = Result.Ok(42);
+   * const asyncResult = okResult.toAsync().map(async (value) => value * 2); // Resolves to: Result.Ok(84)
+   */
+  toAsync(): AsyncResult<T, E> {
+    return AsyncResult.from(this);
+  }
 }
 
 export const { Ok, Err } = Result;
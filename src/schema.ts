@@ -1,7 +1,8 @@
-import { List } from "./list.ts";
+import { AsyncResult } from "./async_result.ts";
+import { List, NonEmptyList } from "./list.ts";
 import { None, Option, Some } from "./option.ts";
 import { Err, Ok, Result } from "./result.ts";
-import { Defined, PlainObject } from "./types.ts";
+import { Awaitable, Defined, Maybe, PlainObject } from "./types.ts";
 import {
   isArray,
   isBoolean,
@@ -11,33 +12,92 @@ import {
   isObject,
   isString,
   isUndefined,
+  raise,
 } from "./util.ts";
 
 export type ParseError = {
-  path: string[];
-  message: string;
-  input: unknown;
+  readonly path: readonly string[];
+  readonly message: string;
+  readonly input: unknown;
+  // The errors of each member of a union, in the order of the members.
+  readonly issues?: readonly (readonly ParseError[])[];
 };
 
-export interface Schema<T extends Defined> {
+export type ParseOptions = {
+  abortEarly?: boolean;
+};
+
+declare const INPUT: unique symbol;
+declare const BRAND: unique symbol;
+
+export type Brand<B extends string> = { readonly [BRAND]: B };
+
+// `I` is the type of the inputs the schema is meant for, which differs from `T` once the value is transformed.
+// Schemas are immutable: the chainable methods return new schemas.
+export interface Schema<T extends Defined, I = T> {
   name: string;
-  parse(input: unknown): Result<T, ParseError>;
+  async: boolean;
+  description?: string;
+  readonly [INPUT]?: I;
+  parse(input: unknown, options?: ParseOptions): Result<T, List<ParseError>>;
+  parseAsync(
+    input: unknown,
+    options?: ParseOptions,
+  ): AsyncResult<T, List<ParseError>>;
+  optional(): Schema<Option<T>, Maybe<I>>;
+  default(value: T): Schema<T, Maybe<I>>;
+  refine(predicate: (value: T) => boolean, message?: string): this;
+  transform<U extends Defined>(fn: (value: T) => U): Schema<U, I>;
+  pipe<U extends Defined>(schema: Schema<U, unknown>): Schema<U, I>;
+  describe(description: string): this;
+  brand<B extends string>(): Schema<T & Brand<B>, I>;
+}
+
+export interface StringSchema extends Schema<string> {
+  min(length: number, message?: string): StringSchema;
+  max(length: number, message?: string): StringSchema;
+  email(message?: string): StringSchema;
+  trim(): StringSchema;
+  lowercase(): StringSchema;
+  uppercase(): StringSchema;
+}
+
+type Literal = number | string | boolean;
+
+export interface LiteralSchema<T extends Literal> extends Schema<T> {
+  value: T;
 }
 
-export interface ObjectSchema<T extends PlainObject> extends Schema<T> {
+export interface NumberSchema extends Schema<number> {
+  min(min: number, message?: string): NumberSchema;
+  max(max: number, message?: string): NumberSchema;
+  integer(message?: string): NumberSchema;
+  clamp(min: number, max: number): NumberSchema;
+}
+
+type AnySchema = Schema<Defined, unknown>;
+
+export interface ObjectSchema<T extends PlainObject, I = T>
+  extends Schema<T, I> {
   shape: Shape<T>;
 }
 
 type Shape<T extends PlainObject> = {
-  [K in keyof T]: T[K] extends Defined ? Schema<T[K]> : never;
+  [K in keyof T]: T[K] extends Defined ? Schema<T[K], unknown> : never;
 };
 
-export type Infer<T> = T extends Schema<infer U> ? U : never;
+export type Infer<T> = T extends Schema<infer U, unknown> ? U : never;
+export type InferOutput<T> = Infer<T>;
+export type InferInput<T> = T extends Schema<Defined, infer I> ? I : never;
 
-type InferTuple<T> = T extends [Schema<infer A>, ...infer B]
+type InferTuple<T> = T extends [Schema<infer A, unknown>, ...infer B]
   ? [A, ...InferTuple<B>]
   : [];
 
+type InferInputTuple<T> = T extends [Schema<Defined, infer A>, ...infer B]
+  ? [A, ...InferInputTuple<B>]
+  : [];
+
 // deno-lint-ignore no-explicit-any
 type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (
   k: infer I,
@@ -50,9 +110,208 @@ type Prettify<T> = { [K in keyof T]: T[K] } & {};
 
 type Pipe<T extends Defined> = (input: T) => Result<T, string>;
 type Pipeline<T extends Defined> = ReadonlyArray<Pipe<T>>;
+type AsyncPipe<T extends Defined> = (input: T) => Awaitable<Result<T, string>>;
+
+// The methods get the schema they are called on as `this`, so that copies of a schema keep working.
+const METHODS = {
+  optional<T extends Defined, I>(this: Schema<T, I>) {
+    return optional(this);
+  },
+  default<T extends Defined, I>(this: Schema<T, I>, value: T) {
+    return defaulted(this, value);
+  },
+  refine<T extends Defined, S extends Schema<T, unknown>>(
+    this: S,
+    predicate: (value: T) => boolean,
+    message = "Invalid value",
+  ): S {
+    return check<T, S>(
+      this,
+      (value) => predicate(value) ? Ok(value) : Err(message),
+    );
+  },
+  transform<T extends Defined, U extends Defined, I>(
+    this: Schema<T, I>,
+    fn: (value: T) => U,
+  ) {
+    return transform(this, fn);
+  },
+  pipe<T extends Defined, U extends Defined, I>(
+    this: Schema<T, I>,
+    schema: Schema<U, unknown>,
+  ) {
+    return pipe(this, schema);
+  },
+  describe<S extends AnySchema>(this: S, description: string): S {
+    return { ...this, description };
+  },
+  // Brands only exist in the types.
+  brand<T extends Defined, I, B extends string>(this: Schema<T, I>) {
+    return this as Schema<T & Brand<B>, I>;
+  },
+};
+
+const STRING_METHODS = {
+  min(this: StringSchema, length: number, message?: string) {
+    return check(this, minLength(length, message));
+  },
+  max(this: StringSchema, length: number, message?: string) {
+    return check(this, maxLength(length, message));
+  },
+  email(this: StringSchema, message?: string) {
+    return check(this, email(message));
+  },
+  trim(this: StringSchema) {
+    return check(this, trim());
+  },
+  lowercase(this: StringSchema) {
+    return check(this, lowercase());
+  },
+  uppercase(this: StringSchema) {
+    return check(this, uppercase());
+  },
+};
+
+const NUMBER_METHODS = {
+  min(this: NumberSchema, value: number, message?: string) {
+    return check(this, min(value, message));
+  },
+  max(this: NumberSchema, value: number, message?: string) {
+    return check(this, max(value, message));
+  },
+  integer(this: NumberSchema, message?: string) {
+    return check(this, integer(message));
+  },
+  clamp(this: NumberSchema, lower: number, upper: number) {
+    return check(this, clamp(lower, upper));
+  },
+};
+
+function leaf<T extends Defined>(
+  name: string,
+  parse: (input: unknown) => Result<T, List<ParseError>>,
+): Schema<T> {
+  return {
+    name,
+    async: false,
+    parse,
+    parseAsync: (input) => AsyncResult.from(parse(input)),
+    ...METHODS,
+  };
+}
+
+// A schema made of other schemas only needs its async parser when one of them is async.
+function composite<T extends Defined, I>(
+  name: string,
+  schemas: readonly AnySchema[],
+  parse: Schema<T>["parse"],
+  parseAsync: Schema<T>["parseAsync"],
+): Schema<T, I> {
+  const async = schemas.some((schema) => schema.async);
+  return {
+    name,
+    async,
+    parse,
+    parseAsync: async
+      ? parseAsync
+      : (input, options) => AsyncResult.from(parse(input, options)),
+    ...METHODS,
+  };
+}
+
+// Copies a schema, running the pipe on its parsed values.
+function check<T extends Defined, S extends Schema<T, unknown>>(
+  schema: S,
+  pipe: Pipe<T>,
+): S {
+  const toErrors = (input: unknown) => (message: string) =>
+    List.of({ path: [], message, input });
+  return {
+    ...schema,
+    parse: (input: unknown, options?: ParseOptions) =>
+      schema.parse(input, options).andThen((value) =>
+        pipe(value).mapErr(toErrors(input))
+      ),
+    parseAsync: (input: unknown, options?: ParseOptions) =>
+      schema.parseAsync(input, options).andThen((value) =>
+        pipe(value).mapErr(toErrors(input))
+      ),
+  };
+}
+
+function createErr(
+  message: string,
+  input: unknown,
+): Result<never, List<ParseError>> {
+  return Err(List.of({ path: [], message, input }));
+}
+
+function prependPath(
+  errors: List<ParseError>,
+  key: string,
+): List<ParseError> {
+  return errors.map((error) => withKey(error, key));
+}
 
-function createErr(message: string, input: unknown): Result<never, ParseError> {
-  return Err({ path: [], message, input });
+function withKey(error: ParseError, key: string): ParseError {
+  const { issues } = error;
+  return {
+    ...error,
+    path: [key, ...error.path],
+    ...(issues && {
+      issues: issues.map((member) =>
+        member.map((issue) => withKey(issue, key))
+      ),
+    }),
+  };
+}
+
+// Parses the parts of a composite input, prefixing the path of their errors with their key.
+function collect<T extends Defined>(
+  count: number,
+  parseAt: (index: number) => Result<T, List<ParseError>>,
+  keyAt: (index: number) => string,
+  options?: ParseOptions,
+): Result<T[], List<ParseError>> {
+  const values: T[] = new Array(count);
+  const errors: ParseError[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = parseAt(i);
+    if (result.isErr()) {
+      errors.push(...prependPath(result.unwrapErr(), keyAt(i)));
+      if (options?.abortEarly) break;
+      continue;
+    }
+    values[i] = result.unwrap();
+  }
+  return errors.length > 0 ? Err(List.from(errors)) : Ok(values);
+}
+
+// Like `collect`, but the parts are parsed concurrently, or one after the other until the first error
+// when parsing aborts early.
+function collectAsync<T extends Defined>(
+  count: number,
+  parseAt: (index: number) => AsyncResult<T, List<ParseError>>,
+  keyAt: (index: number) => string,
+  options?: ParseOptions,
+): AsyncResult<T[], List<ParseError>> {
+  if (options?.abortEarly) {
+    return AsyncResult.from((async () => {
+      const results: Result<T, List<ParseError>>[] = [];
+      for (let i = 0; i < count; i++) {
+        const result = await parseAt(i);
+        results.push(result);
+        if (result.isErr()) break;
+      }
+      return collect(results.length, (i) => results[i], keyAt, options);
+    })());
+  }
+  const results = Array.from({ length: count }, (_, i) => parseAt(i));
+  return AsyncResult.from(
+    Promise.all(results).then((results) =>
+      collect(count, (i) => results[i], keyAt, options)
+    ),
+  );
 }
 
 function runPipeline<T extends Defined>(
@@ -68,6 +327,19 @@ function runPipeline<T extends Defined>(
   return Ok(acc);
 }
 
+async function runPipelineAsync<T extends Defined>(
+  value: T,
+  pipeline: ReadonlyArray<AsyncPipe<T>>,
+): Promise<Result<T, string>> {
+  let acc = value;
+  for (const pipe of pipeline) {
+    const result = await pipe(acc);
+    if (result.isErr()) return result;
+    acc = result.unwrap();
+  }
+  return Ok(acc);
+}
+
 const COERCE: Record<string, (input: unknown) => unknown> = {
   number: (input) => Number(input),
   string: (input) => String(input),
@@ -78,32 +350,35 @@ const COERCE: Record<string, (input: unknown) => unknown> = {
       ["on", "yes", "true"].includes(input.trim().toLowerCase())) ||
     Boolean(input),
   list: (input) => (isArray(input) ? input : [input]),
+  nonEmptyList: (input) => (isArray(input) ? input : [input]),
 };
 
-export function coerce<T extends Defined>(schema: Schema<T>): Schema<T> {
+export function coerce<T extends Defined>(
+  schema: Schema<T, unknown>,
+): Schema<T, unknown> {
   const coerceFn = COERCE[schema.name];
   if (isUndefined(coerceFn)) {
     throw new Error(`Cannot coerce type ${schema.name}`);
   }
   return {
     ...schema,
-    parse: (input) => schema.parse(coerceFn(input)),
+    parse: (input, options) => schema.parse(coerceFn(input), options),
+    parseAsync: (input, options) => schema.parseAsync(coerceFn(input), options),
   };
 }
 
 export const string = (
   pipeline: Pipeline<string> = [],
   message = "Expected string",
-): Schema<string> => ({
-  name: "string",
-  parse: (input) => {
+): StringSchema => ({
+  ...leaf("string", (input) => {
     if (!isString(input)) return createErr(message, input);
-    return runPipeline(input, pipeline).mapErr((message) => ({
-      path: [],
-      message,
-      input,
-    }));
-  },
+    return runPipeline(input, pipeline).mapErr((message) =>
+      List.of({ path: [], message, input })
+    );
+  }),
+  ...METHODS,
+  ...STRING_METHODS,
 });
 
 export const minLength =
@@ -142,18 +417,17 @@ export const email =
 export const number = (
   pipeline: Pipeline<number> = [],
   message = "Expected number",
-): Schema<number> => ({
-  name: "number",
-  parse: (input) => {
+): NumberSchema => ({
+  ...leaf("number", (input) => {
     if (!isNumber(input) || !Number.isFinite(input)) {
       return createErr(message, input);
     }
-    return runPipeline(input, pipeline).mapErr((message) => ({
-      path: [],
-      message,
-      input,
-    }));
-  },
+    return runPipeline(input, pipeline).mapErr((message) =>
+      List.of({ path: [], message, input })
+    );
+  }),
+  ...METHODS,
+  ...NUMBER_METHODS,
 });
 
 export const min =
@@ -182,161 +456,399 @@ export const clamp =
   (input) =>
     Ok(Math.max(min, Math.min(max, input)));
 
-export const boolean = (message = "Expected boolean"): Schema<boolean> => ({
-  name: "boolean",
-  parse: (input) => (isBoolean(input) ? Ok(input) : createErr(message, input)),
-});
-
-export const date = (message = "Expected date"): Schema<Date> => ({
-  name: "date",
-  parse: (input) =>
-    isDate(input) && Number.isFinite(input.getTime())
-      ? Ok(new Date(input))
-      : createErr(message, input),
-});
-
-export const list = <T extends Defined>(
-  schema: Schema<T>,
+export const boolean = (message = "Expected boolean"): Schema<boolean> =>
+  leaf(
+    "boolean",
+    (input) => isBoolean(input) ? Ok(input) : createErr(message, input),
+  );
+
+export const date = (message = "Expected date"): Schema<Date> =>
+  leaf(
+    "date",
+    (input) =>
+      isDate(input) && Number.isFinite(input.getTime())
+        ? Ok(new Date(input))
+        : createErr(message, input),
+  );
+
+export const list = <T extends Defined, I>(
+  schema: Schema<T, I>,
   message = "Expected array",
-): Schema<List<T>> => ({
-  name: "list",
-  parse: (input) => {
-    if (!isArray(input)) return createErr(message, input);
-    const arr: T[] = new Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const result = schema.parse(input[i]);
-      if (result.isErr()) {
-        const err = result.unwrapErr();
-        err.path.unshift(i.toString());
-        return Err(err);
-      }
-      arr[i] = result.unwrap();
-    }
-    return Ok(List.from(arr));
-  },
-});
+): Schema<List<T>, I[]> =>
+  composite(
+    "list",
+    [schema],
+    (input, options) => {
+      if (!isArray(input)) return createErr(message, input);
+      return collect(
+        input.length,
+        (i) => schema.parse(input[i], options),
+        String,
+        options,
+      ).map(List.from);
+    },
+    (input, options) => {
+      if (!isArray(input)) return AsyncResult.from(createErr(message, input));
+      return collectAsync(
+        input.length,
+        (i) => schema.parseAsync(input[i], options),
+        String,
+        options,
+      ).map(List.from);
+    },
+  );
+
+export const nonEmptyList = <T extends Defined, I>(
+  schema: Schema<T, I>,
+  message = "Expected non-empty array",
+): Schema<NonEmptyList<T>, I[]> => {
+  const items = list(schema, message);
+  const toNonEmpty = (input: unknown) => (values: List<T>) =>
+    values.toNonEmpty().okOrElse(() => List.of({ path: [], message, input }));
+  return composite(
+    "nonEmptyList",
+    [items],
+    (input, options) => items.parse(input, options).andThen(toNonEmpty(input)),
+    (input, options) =>
+      items.parseAsync(input, options).andThen(toNonEmpty(input)),
+  );
+};
 
-export const object = <T extends PlainObject>(
-  shape: Shape<T>,
+export const object = <S extends Record<string, AnySchema>>(
+  shape: S,
   message = "Expected object",
-): ObjectSchema<T> => ({
-  shape,
-  name: "object",
-  parse: (input) => {
-    if (!isObject(input)) return createErr(message, input);
+): ObjectSchema<
+  { [K in keyof S]: Infer<S[K]> },
+  { [K in keyof S]: InferInput<S[K]> }
+> => fromShape(shape, message);
+
+function fromShape<T extends PlainObject, I>(
+  shape: Record<string, AnySchema>,
+  message: string,
+): ObjectSchema<T, I> {
+  const keys = Object.keys(shape);
+  const toObject = (values: Defined[]): T => {
     const obj = Object.create(null);
-    for (const key in shape) {
-      const result = shape[key].parse(input[key]);
-      if (result.isErr()) {
-        const err = result.unwrapErr();
-        err.path.unshift(key);
-        return Err(err);
-      }
-      obj[key] = result.unwrap();
-    }
-    return Ok(obj);
-  },
-});
-
-export const optional = <T extends Defined>(
-  schema: Schema<T>,
-): Schema<Option<T>> => ({
-  ...schema,
-  parse: (input) =>
-    !isDefined(input) ? Ok(None) : schema.parse(input).map(Some),
-});
+    keys.forEach((key, i) => (obj[key] = values[i]));
+    return obj;
+  };
+  const keyAt = (i: number) => keys[i];
+  return {
+    shape: shape as Shape<T>,
+    ...composite(
+      "object",
+      keys.map((key) => shape[key]),
+      (input, options) => {
+        if (!isObject(input)) return createErr(message, input);
+        return collect<Defined>(
+          keys.length,
+          (i) => shape[keys[i]].parse(input[keys[i]], options),
+          keyAt,
+          options,
+        ).map(toObject);
+      },
+      (input, options) => {
+        if (!isObject(input)) {
+          return AsyncResult.from(createErr(message, input));
+        }
+        return collectAsync<Defined>(
+          keys.length,
+          (i) => shape[keys[i]].parseAsync(input[keys[i]], options),
+          keyAt,
+          options,
+        ).map(toObject);
+      },
+    ),
+    // Typed against ObjectSchema this time, so that `refine` and `describe` return one.
+    ...METHODS,
+  };
+}
 
-export const defaulted = <T extends Defined>(
-  schema: Schema<T>,
+export const optional = <T extends Defined, I>(
+  schema: Schema<T, I>,
+): Schema<Option<T>, Maybe<I>> =>
+  composite(
+    schema.name,
+    [schema],
+    (input, options) =>
+      !isDefined(input) ? Ok(None) : schema.parse(input, options).map(Some),
+    (input, options) =>
+      !isDefined(input)
+        ? AsyncResult.from(Ok(None))
+        : schema.parseAsync(input, options).map(Some),
+  );
+
+export const defaulted = <T extends Defined, I>(
+  schema: Schema<T, I>,
   defaultValue: T,
-): Schema<T> => ({
-  ...schema,
-  parse: (input) => (isDefined(input) ? schema.parse(input) : Ok(defaultValue)),
-});
-
-export const pick = <T extends PlainObject, K extends keyof T>(
-  schema: ObjectSchema<T>,
+): Schema<T, Maybe<I>> =>
+  composite(
+    schema.name,
+    [schema],
+    (input, options) =>
+      isDefined(input) ? schema.parse(input, options) : Ok(defaultValue),
+    (input, options) =>
+      isDefined(input)
+        ? schema.parseAsync(input, options)
+        : AsyncResult.from(Ok(defaultValue)),
+  );
+
+export const pick = <
+  T extends PlainObject,
+  I extends PlainObject,
+  K extends keyof T & keyof I,
+>(
+  schema: ObjectSchema<T, I>,
   keys: readonly K[],
   message = "Expected object",
-): ObjectSchema<Prettify<Pick<T, K>>> => {
+): ObjectSchema<Prettify<Pick<T, K>>, Prettify<Pick<I, K>>> => {
   const nextShape = Object.create(null);
   for (const key of Object.keys(schema.shape)) {
     if (keys.includes(key as K)) {
       nextShape[key] = schema.shape[key];
     }
   }
-  return object(nextShape, message);
+  return fromShape(nextShape, message);
 };
 
-export const omit = <T extends PlainObject, K extends keyof T>(
-  schema: ObjectSchema<T>,
+export const omit = <
+  T extends PlainObject,
+  I extends PlainObject,
+  K extends keyof T & keyof I,
+>(
+  schema: ObjectSchema<T, I>,
   keys: readonly K[],
   message = "Expected object",
-): ObjectSchema<Prettify<Omit<T, K>>> => {
+): ObjectSchema<Prettify<Omit<T, K>>, Prettify<Omit<I, K>>> => {
   const nextShape = Object.create(null);
   for (const key of Object.keys(schema.shape)) {
     if (!keys.includes(key as K)) {
       nextShape[key] = schema.shape[key];
     }
   }
-  return object(nextShape, message);
+  return fromShape(nextShape, message);
 };
 
-export const literal = <T extends number | string | boolean>(
+export const literal = <T extends Literal>(
   constant: T,
   message = `Expecting literal ${constant}`,
-): Schema<T> => ({
-  name: "literal",
-  parse: (input) =>
-    Object.is(constant, input) ? Ok(input as T) : createErr(message, input),
+): LiteralSchema<T> => ({
+  ...leaf(
+    "literal",
+    (input) =>
+      Object.is(constant, input) ? Ok(input as T) : createErr(message, input),
+  ),
+  ...METHODS,
+  value: constant,
 });
 
-export const tuple = <A extends Schema<Defined>, B extends Schema<Defined>[]>(
+export const tuple = <A extends AnySchema, B extends AnySchema[]>(
   schemas: [A, ...B],
   message = `Expecting tuple of [${schemas.map((s) => s.name).join(", ")}]`,
-): Schema<[Infer<A>, ...InferTuple<B>]> => ({
-  name: "tuple",
-  parse: (input) => {
-    if (!isArray(input)) return createErr(message, input);
-    const arr = new Array(schemas.length) as [Infer<A>, ...InferTuple<B>];
-    for (let i = 0; i < schemas.length; i++) {
-      const result = schemas[i].parse(input[i]);
-      if (result.isErr()) {
-        const err = result.unwrapErr();
-        err.path.unshift(i.toString());
-        return Err(err);
-      }
-      // deno-lint-ignore no-explicit-any
-      arr[i] = result.unwrap() as any;
-    }
-    return Ok(arr);
-  },
-});
+): Schema<
+  [Infer<A>, ...InferTuple<B>],
+  [InferInput<A>, ...InferInputTuple<B>]
+> => {
+  const toTuple = (values: Defined[]) => values as [Infer<A>, ...InferTuple<B>];
+  return composite(
+    "tuple",
+    schemas,
+    (input, options) => {
+      if (!isArray(input)) return createErr(message, input);
+      return collect(
+        schemas.length,
+        (i) => schemas[i].parse(input[i], options),
+        String,
+        options,
+      ).map(toTuple);
+    },
+    (input, options) => {
+      if (!isArray(input)) return AsyncResult.from(createErr(message, input));
+      return collectAsync(
+        schemas.length,
+        (i) => schemas[i].parseAsync(input[i], options),
+        String,
+        options,
+      ).map(toTuple);
+    },
+  );
+};
 
-export const union = <A extends Schema<Defined>, B extends Schema<Defined>[]>(
+export const union = <A extends AnySchema, B extends AnySchema[]>(
   schemas: [A, ...B],
   message = `Expecting one of ${schemas.map((s) => s.name).join(", ")}`,
-): Schema<Infer<A> | Infer<B[number]>> => ({
-  name: "union",
-  parse: (input) => {
-    for (const schema of schemas) {
-      const result = schema.parse(input);
-      if (result.isOk()) {
-        // deno-lint-ignore no-explicit-any
-        return result as any;
+): Schema<Infer<A> | Infer<B[number]>, InferInput<A> | InferInput<B[number]>> =>
+  composite(
+    "union",
+    schemas,
+    (input, options) => {
+      const issues: ParseError[][] = [];
+      for (const schema of schemas) {
+        const result = schema.parse(input, options);
+        if (result.isOk()) {
+          // deno-lint-ignore no-explicit-any
+          return result as any;
+        }
+        issues.push(result.unwrapErr().toArray());
       }
+      return unionErr(message, input, issues, options);
+    },
+    // Members are tried one after the other, so a later member's checks only run when the earlier ones fail.
+    (input, options) =>
+      AsyncResult.from((async () => {
+        const issues: ParseError[][] = [];
+        for (const schema of schemas) {
+          const result = await schema.parseAsync(input, options);
+          if (result.isOk()) {
+            // deno-lint-ignore no-explicit-any
+            return result as any;
+          }
+          issues.push(result.unwrapErr().toArray());
+        }
+        return unionErr(message, input, issues, options);
+      })()),
+  );
+
+// The errors of the members are grouped under the message, unless parsing aborts early.
+function unionErr(
+  message: string,
+  input: unknown,
+  issues: ParseError[][],
+  options?: ParseOptions,
+): Result<never, List<ParseError>> {
+  const error = { path: [], message, input };
+  return Err(List.of(options?.abortEarly ? error : { ...error, issues }));
+}
+
+export const discriminatedUnion = <
+  K extends string,
+  A extends ObjectSchema<{ [P in K]: Literal }, unknown>,
+  B extends ObjectSchema<{ [P in K]: Literal }, unknown>[],
+>(
+  key: K,
+  schemas: [A, ...B],
+  message = "Expected object",
+): Schema<
+  Infer<A> | Infer<B[number]>,
+  InferInput<A> | InferInput<B[number]>
+> => {
+  const members = new Map<unknown, AnySchema>();
+  for (const schema of schemas) {
+    const discriminator: AnySchema | LiteralSchema<Literal> = schema.shape[key];
+    if (!("value" in discriminator)) {
+      raise(`Discriminator ${key} must be a literal`);
     }
-    return createErr(message, input);
-  },
-});
+    if (members.has(discriminator.value)) {
+      raise(`Duplicate discriminator ${key} : ${discriminator.value}`);
+    }
+    members.set(discriminator.value, schema);
+  }
+  const discriminatorErr = (input: unknown) =>
+    Err(List.of({
+      path: [key],
+      message: `Expecting one of ${[...members.keys()].join(", ")}`,
+      input,
+    }));
+  return composite(
+    "discriminatedUnion",
+    schemas,
+    (input, options) => {
+      if (!isObject(input)) return createErr(message, input);
+      const member = members.get(input[key]);
+      if (isUndefined(member)) return discriminatorErr(input[key]);
+      return member.parse(input, options);
+    },
+    (input, options) => {
+      if (!isObject(input)) return AsyncResult.from(createErr(message, input));
+      const member = members.get(input[key]);
+      if (isUndefined(member)) {
+        return AsyncResult.from(discriminatorErr(input[key]));
+      }
+      return member.parseAsync(input, options);
+    },
+  ) as Schema<
+    Infer<A> | Infer<B[number]>,
+    InferInput<A> | InferInput<B[number]>
+  >;
+};
 
 export const intersection = <
-  A extends ObjectSchema<Defined>,
-  B extends ObjectSchema<Defined>[],
+  A extends ObjectSchema<Defined, unknown>,
+  B extends ObjectSchema<Defined, unknown>[],
 >(
   schemas: [A, ...B],
   message = "Expecting object",
-): ObjectSchema<Prettify<UnionToIntersection<Infer<A> | Infer<B[number]>>>> => {
+): ObjectSchema<
+  Prettify<UnionToIntersection<Infer<A> | Infer<B[number]>>>,
+  Prettify<UnionToIntersection<InferInput<A> | InferInput<B[number]>>>
+> => {
   const shapes = schemas.map((s) => s.shape);
-  return object(Object.assign({}, ...shapes), message);
+  return fromShape(Object.assign({}, ...shapes), message);
 };
+
+export const refineAsync = <T extends Defined, I>(
+  schema: Schema<T, I>,
+  ...pipeline: AsyncPipe<T>[]
+): Schema<T, I> => ({
+  ...schema,
+  async: true,
+  parse: (input) =>
+    createErr(
+      `Schema ${schema.name} has async checks, use parseAsync instead`,
+      input,
+    ),
+  parseAsync: (input, options) =>
+    schema.parseAsync(input, options).andThen(async (value) =>
+      (await runPipelineAsync(value, pipeline)).mapErr((message) =>
+        List.of({ path: [], message, input })
+      )
+    ),
+});
+
+export const transform = <T extends Defined, U extends Defined, I>(
+  schema: Schema<T, I>,
+  fn: (value: T) => U,
+): Schema<U, I> =>
+  composite(
+    schema.name,
+    [schema],
+    (input, options) => schema.parse(input, options).map(fn),
+    (input, options) => schema.parseAsync(input, options).map(fn),
+  );
+
+// The output of the first schema is parsed by the second one.
+export const pipe = <T extends Defined, U extends Defined, I>(
+  from: Schema<T, I>,
+  to: Schema<U, unknown>,
+): Schema<U, I> =>
+  composite(
+    from.name,
+    [from, to],
+    (input, options) =>
+      from.parse(input, options).andThen((value) => to.parse(value, options)),
+    (input, options) =>
+      from.parseAsync(input, options).andThen((value) =>
+        to.parseAsync(value, options)
+      ),
+  );
+
+// The errors of the members of a union follow the union error, each under its own path.
+export function flatten(
+  errors: Iterable<ParseError>,
+): Record<string, string[]> {
+  const fields = new Map<string, string[]>();
+  const add = (errors: Iterable<ParseError>) => {
+    for (const { path, message, issues } of errors) {
+      const key = path.join(".");
+      const messages = fields.get(key);
+      if (messages) {
+        messages.push(message);
+      } else {
+        fields.set(key, [message]);
+      }
+      for (const member of issues ?? []) add(member);
+    }
+  };
+  add(errors);
+  return Object.fromEntries(fields);
+}
@@ -0,0 +1,472 @@
+import { HashSet } from "./hash_set.ts";
+import { List } from "./list.ts";
+import { Option } from "./option.ts";
+import { mathRandom, type Random } from "./random.ts";
+import { Defined } from "./types.ts";
+import { isFunction, raise } from "./util.ts";
+
+/**
+ * A lazy sequence backed by iterators. Operations are only recorded when chained and every element flows
+ * through the whole chain in a single pass once a terminal operation (such as `toList`) pulls it.
+ * A Seq can be iterated more than once, each iteration re-runs the chain from its source.
+ */
+export class Seq<T extends Defined> implements Iterable<T> {
+  #source: () => Iterator<T>;
+
+  private constructor(source: () => Iterator<T>) {
+    this.#source = source;
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.#source();
+  }
+
+  /**
+   * Creates an empty Seq.
+   *
+   * @template T - The type of elements in the Seq.
+   * @returns {Seq<T>} A new Seq with no elements.
+   *
+   * @example
+   * const empty = Seq.empty<number>();
+   */
+  static empty<T extends Defined>(): Seq<T> {
+    return Seq.from([]);
+  }
+
+  /**
+   * Creates a new Seq from the provided elements.
+   *
+   * @template T - The type of elements in the Seq.
+   * @param {...T[]} items - The elements to include in the new Seq.
+   * @returns {Seq<T>} A new Seq containing the provided elements.
+   *
+   * @example
+   * const numbers = Seq.of(1, 2, 3);
+   */
+  static of<T extends Defined>(...items: readonly T[]): Seq<T> {
+    return Seq.from(items);
+  }
+
+  /**
+   * Creates a new Seq from an iterable, such as an array, a Set or a List. The iterable is not copied.
+   *
+   * @template T - The type of elements in the Seq.
+   * @param {Iterable<T>} iterable - The iterable to read elements from.
+   * @returns {Seq<T>} A new Seq reading from the iterable.
+   *
+   * @example
+   * const fromList = Seq.from(List.of(1, 2, 3));
+   */
+  static from<T extends Defined>(iterable: Iterable<T>): Seq<T> {
+    return new Seq(() => iterable[Symbol.iterator]());
+  }
+
+  /**
+   * Creates a Seq of numbers from `start` (inclusive) to `end` (exclusive), advancing by `step`.
+   * Without an `end`, the Seq is infinite.
+   *
+   * @param {number} [start] - The first number. Default is 0.
+   * @param {number} [end] - The number to stop before. Default is Infinity.
+   * @param {number} [step] - The increment between numbers. Default is 1, or -1 when `end` is smaller than `start`.
+   * @returns {Seq<number>} A new Seq of numbers.
+   *
+   * @example
+   * Seq.range(0, 5).toArray();  // [0, 1, 2, 3, 4]
+   * Seq.range(5, 0).toArray();  // [5, 4, 3, 2, 1]
+   * Seq.range(1).take(3).toArray();  // [1, 2, 3]
+   */
+  static range(
+    start = 0,
+    end = Infinity,
+    step = end < start ? -1 : 1,
+  ): Seq<number> {
+    return new Seq(function* () {
+      if (step === 0) return;
+      for (let i = start; step > 0 ? i < end : i > end; i += step) {
+        yield i;
+      }
+    });
+  }
+
+  /**
+   * Creates an infinite Seq by repeatedly applying a function, starting from a seed value.
+   *
+   * @template T - The type of elements in the Seq.
+   * @param {T} seed - The first element.
+   * @param {(prev: T) => T} fn - The function computing the next element from the previous one.
+   * @returns {Seq<T>} A new infinite Seq.
+   *
+   * @example
+   * Seq.iterate(1, (n) => n * 2).take(5).toArray();  // [1, 2, 4, 8, 16]
+   */
+  static iterate<T extends Defined>(seed: T, fn: (prev: T) => T): Seq<T> {
+    return new Seq(function* () {
+      let value = seed;
+      while (true) {
+        yield value;
+        value = fn(value);
+      }
+    });
+  }
+
+  /**
+   * Creates a Seq repeating a value, a given number of times or infinitely.
+   *
+   * @template T - The type of elements in the Seq.
+   * @param {T} value - The value to repeat.
+   * @param {number} [times] - The number of repetitions. Default is Infinity.
+   * @returns {Seq<T>} A new Seq repeating the value.
+   *
+   * @example
+   * Seq.repeat("a", 3).toArray();  // ['a', 'a', 'a']
+   */
+  static repeat<T extends Defined>(value: T, times = Infinity): Seq<T> {
+    return new Seq(function* () {
+      for (let i = 0; i < times; i++) {
+        yield value;
+      }
+    });
+  }
+
+  /**
+   * Creates an infinite Seq cycling through the elements of an iterable. Cycling an empty iterable yields nothing.
+   *
+   * @template T - The type of elements in the Seq.
+   * @param {Iterable<T>} iterable - The elements to cycle through.
+   * @returns {Seq<T>} A new Seq cycling through the elements.
+   *
+   * @example
+   * Seq.cycle(["red", "green"]).take(3).toArray();  // ['red', 'green', 'red']
+   */
+  static cycle<T extends Defined>(iterable: Iterable<T>): Seq<T> {
+    return new Seq(function* () {
+      const seen: T[] = [];
+      for (const item of iterable) {
+        seen.push(item);
+        yield item;
+      }
+      if (seen.length === 0) return;
+      while (true) {
+        yield* seen;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq by applying a function to each element.
+   *
+   * @template U - The type of elements in the new Seq.
+   * @param {(item: T) => U} fn - A function that transforms each element.
+   * @returns {Seq<U>} A new Seq with the transformed elements.
+   *
+   * @example
+   * Seq.range(1, 4).map((n) => n * 2).toArray();  // [2, 4, 6]
+   */
+  map<U extends Defined>(fn: (item: T) => U): Seq<U> {
+    return this.#pipe(function* (source) {
+      for (const item of source) {
+        yield fn(item);
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq with elements that satisfy the provided type guard.
+   *
+   * @template U - The type of elements in the new Seq.
+   * @param {(item: T) => item is U} predicate - A type guard that defines the filtering criteria.
+   * @returns {Seq<U>} A new Seq with the elements that satisfy the type guard.
+   */
+  filter<U extends T>(predicate: (item: T) => item is U): Seq<U>;
+
+  /**
+   * Creates a new Seq with elements that satisfy the provided predicate.
+   *
+   * @param {(item: T) => boolean} predicate - A predicate that defines the filtering criteria.
+   * @returns {Seq<T>} A new Seq with the elements that satisfy the predicate.
+   *
+   * @example
+   * Seq.range(1, 7).filter((n) => n % 2 === 0).toArray();  // [2, 4, 6]
+   */
+  filter(predicate: (item: T) => boolean): Seq<T>;
+  filter(predicate: (item: T) => boolean): Seq<T> {
+    return this.#pipe(function* (source) {
+      for (const item of source) {
+        if (predicate(item)) yield item;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq by applying a function to each element and flattening the resulting iterables.
+   *
+   * @template U - The type of elements in the new Seq.
+   * @param {(item: T) => Iterable<U>} fn - A function returning an iterable for each element.
+   * @returns {Seq<U>} A new Seq with the flattened elements.
+   *
+   * @example
+   * Seq.of("ab", "c").flatMap((word) => word).toArray();  // ['a', 'b', 'c']
+   */
+  flatMap<U extends Defined>(fn: (item: T) => Iterable<U>): Seq<U> {
+    return this.#pipe(function* (source) {
+      for (const item of source) {
+        yield* fn(item);
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq with at most the given number of elements from the beginning.
+   *
+   * @param {number} count - The number of elements to take.
+   * @returns {Seq<T>} A new Seq with the first elements.
+   * @throws {RangeError} If the count is NaN.
+   *
+   * @example
+   * Seq.range().take(3).toArray();  // [0, 1, 2]
+   */
+  take(count: number): Seq<T> {
+    if (Number.isNaN(count)) raise(new RangeError(`Invalid count : ${count}`));
+    return this.#pipe(function* (source) {
+      if (count <= 0) return;
+      let taken = 0;
+      for (const item of source) {
+        yield item;
+        if (++taken >= count) return;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq with elements from the beginning until the predicate becomes false.
+   *
+   * @param {(item: T, index: number) => boolean} predicate - The function that tests each element along with its index.
+   * @returns {Seq<T>} A new Seq with the leading elements that satisfy the predicate.
+   *
+   * @example
+   * Seq.range(1).takeWhile((n) => n < 4).toArray();  // [1, 2, 3]
+   */
+  takeWhile(predicate: (item: T, index: number) => boolean): Seq<T> {
+    return this.#pipe(function* (source) {
+      let index = 0;
+      for (const item of source) {
+        if (!predicate(item, index++)) return;
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq skipping the given number of elements from the beginning.
+   *
+   * @param {number} count - The number of elements to skip.
+   * @returns {Seq<T>} A new Seq without the first elements.
+   *
+   * @example
+   * Seq.range(0, 5).drop(2).toArray();  // [2, 3, 4]
+   */
+  drop(count: number): Seq<T> {
+    return this.#pipe(function* (source) {
+      let dropped = 0;
+      for (const item of source) {
+        if (dropped++ < count) continue;
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq skipping elements from the beginning while the predicate holds.
+   *
+   * @param {(item: T) => boolean} predicate - The function that tests each element.
+   * @returns {Seq<T>} A new Seq starting at the first element that does not satisfy the predicate.
+   *
+   * @example
+   * Seq.range(1, 7).dropWhile((n) => n <= 3).toArray();  // [4, 5, 6]
+   */
+  dropWhile(predicate: (item: T) => boolean): Seq<T> {
+    return this.#pipe(function* (source) {
+      let dropping = true;
+      for (const item of source) {
+        if (dropping && predicate(item)) continue;
+        dropping = false;
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq of pairs of corresponding elements. The Seq ends with the shorter of the two,
+   * and closes the iterator of the other iterable if it is not finished.
+   *
+   * @template U - The type of elements in the other iterable.
+   * @param {Iterable<U>} other - The iterable to zip with.
+   * @returns {Seq<[T, U]>} A new Seq of pairs.
+   *
+   * @example
+   * Seq.range().zip(["a", "b"]).toArray();  // [[0, 'a'], [1, 'b']]
+   */
+  zip<U extends Defined>(other: Iterable<U>): Seq<[T, U]> {
+    return this.#pipe(function* (source) {
+      const iterator = other[Symbol.iterator]();
+      let done = false;
+      try {
+        for (const item of source) {
+          const next = iterator.next();
+          if (next.done) {
+            done = true;
+            return;
+          }
+          yield [item, next.value] as [T, U];
+        }
+      } finally {
+        if (!done) iterator.return?.();
+      }
+    });
+  }
+
+  /**
+   * Creates a new Seq without duplicate elements, based on a discriminator function or the default equality check.
+   * Elements, or their keys, are compared by value with `equals`.
+   *
+   * @param {((item: T) => K)} [discriminator] - A function that generates a unique key for each element.
+   * @returns {Seq<T>} A new Seq keeping the first occurrence of each element.
+   *
+   * @example
+   * Seq.of(1, 2, 1, 3, 2).uniq().toArray();  // [1, 2, 3]
+   */
+  uniq<K extends Defined>(discriminator?: (item: T) => K): Seq<T> {
+    return this.#pipe(function* (source) {
+      let seen = HashSet.empty<Defined>();
+      for (const item of source) {
+        const key = isFunction(discriminator) ? discriminator(item) : item;
+        if (seen.has(key)) continue;
+        seen = seen.add(key);
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Splits the Seq into two Seqs based on a predicate. Each of them reads the source independently.
+   *
+   * @param {(item: T) => boolean} predicate - A function that determines the split criteria.
+   * @returns {[Seq<T>, Seq<T>]} A pair with the elements satisfying the predicate and the elements not satisfying it.
+   *
+   * @example
+   * const [even, odd] = Seq.range(0, 5).partition((n) => n % 2 === 0);
+   * even.toArray();  // [0, 2, 4]
+   * odd.toArray();  // [1, 3]
+   */
+  partition(predicate: (item: T) => boolean): [Seq<T>, Seq<T>] {
+    return [this.filter(predicate), this.filter((item) => !predicate(item))];
+  }
+
+  /**
+   * Finds the first element that satisfies the provided predicate, consuming the Seq only up to that element.
+   *
+   * @param {(item: T) => boolean} predicate - A function that tests each element.
+   * @returns {Option<T>} An Option containing the first matching element, or None.
+   *
+   * @example
+   * Seq.range(1).find((n) => n % 7 === 0);  // Some(7)
+   */
+  find(predicate: (item: T) => boolean): Option<T> {
+    for (const item of this) {
+      if (predicate(item)) return Option.Some(item);
+    }
+    return Option.None;
+  }
+
+  /**
+   * Retrieves the first element of the Seq.
+   *
+   * @returns {Option<T>} An Option containing the first element, or None if the Seq is empty.
+   *
+   * @example
+   * Seq.range(3).first();  // Some(3)
+   */
+  first(): Option<T> {
+    return this.find(() => true);
+  }
+
+  /**
+   * Reduces the Seq to a single value by applying a reducer function to each element. The Seq must be finite.
+   *
+   * @template U - The type of the accumulated result.
+   * @param {U} initialValue - The initial value of the accumulator.
+   * @param {(prev: U, next: T) => U} reducer - A function that combines the accumulator and the current element.
+   * @returns {U} The final accumulated result.
+   *
+   * @example
+   * Seq.range(1, 5).reduce(0, (sum, n) => sum + n);  // 10
+   */
+  reduce<U>(initialValue: U, reducer: (prev: U, next: T) => U): U {
+    let acc = initialValue;
+    for (const item of this) {
+      acc = reducer(acc, item);
+    }
+    return acc;
+  }
+
+  /**
+   * Selects distinct elements of the Seq at random in a single pass, without holding more than `count` elements
+   * in memory (reservoir sampling). Every element has the same chance to be selected. The Seq must be finite.
+   *
+   * @param {number} count - The number of elements to select. Must be a non-negative integer.
+   * @param {Random} [rng] - The source of random numbers. Default is `mathRandom`, backed by `Math.random`.
+   * @returns {List<T>} A List with the selected elements, or every element if the Seq is shorter than `count`.
+   * @throws {RangeError} If the count is not a non-negative integer.
+   *
+   * @example
+   * Seq.range(0, 1_000_000).sample(3).toArray();  // [48213, 901, 733580] (example output)
+   */
+  sample(count: number, rng: Random = mathRandom): List<T> {
+    if (!Number.isInteger(count) || count < 0) {
+      raise(new RangeError(`Invalid sample size : ${count}`));
+    }
+    const reservoir: T[] = [];
+    let seen = 0;
+    for (const item of this) {
+      seen++;
+      if (reservoir.length < count) {
+        reservoir.push(item);
+      } else {
+        const index = Math.floor(rng.next() * seen);
+        if (index < count) reservoir[index] = item;
+      }
+    }
+    return List.from(reservoir);
+  }
+
+  /**
+   * Collects the elements of the Seq into a List. The Seq must be finite.
+   *
+   * @returns {List<T>} A new List with the elements of the Seq.
+   *
+   * @example
+   * Seq.range(0, 3).toList();  // List [0, 1, 2]
+   */
+  toList(): List<T> {
+    return List.from(this);
+  }
+
+  /**
+   * Collects the elements of the Seq into an array. The Seq must be finite.
+   *
+   * @returns {T[]} A new array with the elements of the Seq.
+   *
+   * @example
+   * Seq.range(0, 3).toArray();  // [0, 1, 2]
+   */
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  #pipe<U extends Defined>(
+    fn: (source: Iterable<T>) => Generator<U, void, undefined>,
+  ): Seq<U> {
+    return new Seq(() => fn(this));
+  }
+}
@@ -0,0 +1,286 @@
+import { List } from "./list.ts";
+import { None, Option, Some } from "./option.ts";
+import { Seq } from "./seq.ts";
+import { Defined, Maybe } from "./types.ts";
+import { isDefined } from "./util.ts";
+
+/**
+ * A node of a tree: any value holding its children in a `children` List, such as a menu entry or an employee.
+ * @template T - The type of the children, usually the type of the node itself.
+ */
+export type Node<T extends Defined> = { readonly children: List<T> };
+
+/**
+ * A value of type T nested in a tree, as built by `fromFlat`.
+ * @template T - The type of the values.
+ */
+export type Nested<T extends Defined> = T & {
+  readonly children: List<Nested<T>>;
+};
+
+/**
+ * The order in which `depthFirst` visits the nodes: "pre" visits a node before its children, "post" after them.
+ */
+export type DepthFirstOrder = "pre" | "post";
+
+/**
+ * Iterates over the nodes of a tree, or of every tree of a List, depth first. The Seq is lazy
+ * and the traversal does not use recursion, so deep trees do not overflow the stack.
+ * @param {T | List<T>} tree - The root of the tree, or a List of roots.
+ * @param {DepthFirstOrder} [order] - Whether nodes come before ("pre") or after ("post") their children. Default is "pre".
+ * @returns {Seq<T>} A Seq of the nodes.
+ * @function
+ * @example
+ * const menu = { label: "root", children: List.of({ label: "a", children: List.empty() }) };
+ *
+ * Tree.depthFirst(menu).map((node) => node.label).toArray(); // ["root", "a"]
+ * Tree.depthFirst(menu, "post").map((node) => node.label).toArray(); // ["a", "root"]
+ */
+export function depthFirst<T extends Node<T>>(
+  tree: T | List<T>,
+  order: DepthFirstOrder = "pre",
+): Seq<T> {
+  const roots = toForest(tree);
+  return Seq.from({
+    *[Symbol.iterator]() {
+      const stack: { node?: T; children: Iterator<T> }[] = [
+        { children: roots[Symbol.iterator]() },
+      ];
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const next = frame.children.next();
+        if (next.done) {
+          stack.pop();
+          if (order === "post" && isDefined(frame.node)) yield frame.node;
+          continue;
+        }
+        if (order === "pre") yield next.value;
+        stack.push({
+          node: next.value,
+          children: next.value.children[Symbol.iterator](),
+        });
+      }
+    },
+  });
+}
+
+/**
+ * Iterates over the nodes of a tree, or of every tree of a List, level by level.
+ * @param {T | List<T>} tree - The root of the tree, or a List of roots.
+ * @returns {Seq<T>} A lazy Seq of the nodes.
+ * @function
+ * @example
+ * Tree.breadthFirst(orgChart).map((employee) => employee.name).toArray(); // ["CEO", "CTO", "CFO", "Engineer"]
+ */
+export function breadthFirst<T extends Node<T>>(tree: T | List<T>): Seq<T> {
+  const roots = toForest(tree);
+  return Seq.from({
+    *[Symbol.iterator]() {
+      const queue = roots.toArray();
+      for (let i = 0; i < queue.length; i++) {
+        yield queue[i];
+        queue.push(...queue[i].children);
+      }
+    },
+  });
+}
+
+/**
+ * Creates a new tree by applying a function to each node, from the leaves up to the root.
+ * The function receives each node together with its children, which are already transformed.
+ * The tree is walked without recursion, so deep trees do not overflow the stack.
+ * @param {T} tree - The root of the tree.
+ * @param {(node: T, children: List<U>) => U} fn - A function building the new node from the node and its transformed children.
+ * @returns {U} The root of the new tree.
+ * @function
+ * @example
+ * const labels = Tree.map(menu, (node, children) => ({ label: node.label.toUpperCase(), children }));
+ */
+export function map<T extends Node<T>, U extends Node<U>>(
+  tree: T,
+  fn: (node: T, children: List<U>) => U,
+): U;
+/**
+ * Creates new trees by applying a function to each node of every tree of a List.
+ * @param {List<T>} forest - The roots of the trees.
+ * @param {(node: T, children: List<U>) => U} fn - A function building the new node from the node and its transformed children.
+ * @returns {List<U>} The roots of the new trees.
+ * @function
+ */
+export function map<T extends Node<T>, U extends Node<U>>(
+  forest: List<T>,
+  fn: (node: T, children: List<U>) => U,
+): List<U>;
+export function map<T extends Node<T>, U extends Node<U>>(
+  tree: T | List<T>,
+  fn: (node: T, children: List<U>) => U,
+): U | List<U> {
+  const roots = fold(
+    toForest(tree),
+    (node) => node.children,
+    (node, children: U[]) => fn(node, List.from(children)),
+  );
+  return tree instanceof List ? List.from(roots) : roots[0];
+}
+
+/**
+ * Keeps the nodes of a tree that satisfy a predicate, along with their ancestors so the tree stays connected.
+ * Nodes that are kept are copied with their remaining children, other nodes are removed with their subtree.
+ * The tree is walked without recursion, so deep trees do not overflow the stack.
+ * @param {T} tree - The root of the tree.
+ * @param {(node: T) => boolean} predicate - A function that tests each node.
+ * @returns {Option<T>} An Option containing the filtered tree, or None if no node satisfies the predicate.
+ * @function
+ * @example
+ * // Searching a menu while keeping the path to the matching entries
+ * const results = Tree.filter(menu, (node) => node.label.includes("settings"));
+ */
+export function filter<T extends Node<T>>(
+  tree: T,
+  predicate: (node: T) => boolean,
+): Option<T>;
+/**
+ * Keeps the nodes of every tree of a List that satisfy a predicate, along with their ancestors.
+ * @param {List<T>} forest - The roots of the trees.
+ * @param {(node: T) => boolean} predicate - A function that tests each node.
+ * @returns {List<T>} The roots of the filtered trees.
+ * @function
+ */
+export function filter<T extends Node<T>>(
+  forest: List<T>,
+  predicate: (node: T) => boolean,
+): List<T>;
+export function filter<T extends Node<T>>(
+  tree: T | List<T>,
+  predicate: (node: T) => boolean,
+): Option<T> | List<T> {
+  const kept = (results: Option<T>[]) =>
+    List.from(results).flatMap((result) =>
+      result.match((node) => [node], () => [])
+    );
+  const roots = fold(
+    toForest(tree),
+    (node) => node.children,
+    (node, results: Option<T>[]): Option<T> => {
+      const children = kept(results);
+      if (!predicate(node) && children.first().isNone()) return None;
+      return Some({ ...node, children });
+    },
+  );
+  return tree instanceof List ? kept(roots) : roots[0];
+}
+
+/**
+ * Finds the first node satisfying a predicate, depth first, and returns the path leading to it.
+ * @param {T | List<T>} tree - The root of the tree, or a List of roots.
+ * @param {(node: T) => boolean} predicate - A function that tests each node.
+ * @returns {Option<List<T>>} An Option containing the nodes from the root to the found node, or None if no node satisfies the predicate.
+ * @function
+ * @example
+ * Tree.findPath(menu, (node) => node.label === "a").map((path) => path.map((node) => node.label)); // Some(List ["root", "a"])
+ */
+export function findPath<T extends Node<T>>(
+  tree: T | List<T>,
+  predicate: (node: T) => boolean,
+): Option<List<T>> {
+  const path: T[] = [];
+  const stack: Iterator<T>[] = [toForest(tree)[Symbol.iterator]()];
+  while (stack.length > 0) {
+    const next = stack[stack.length - 1].next();
+    if (next.done) {
+      stack.pop();
+      path.pop();
+      continue;
+    }
+    path.push(next.value);
+    if (predicate(next.value)) return Some(List.from(path));
+    stack.push(next.value.children[Symbol.iterator]());
+  }
+  return None;
+}
+
+/**
+ * Collects the nodes of a tree, or of every tree of a List, in depth-first order.
+ * @param {T | List<T>} tree - The root of the tree, or a List of roots.
+ * @returns {List<T>} A List of every node, each node coming before its children.
+ * @function
+ * @example
+ * Tree.flatten(menu).map((node) => node.label); // List ["root", "a"]
+ */
+export function flatten<T extends Node<T>>(tree: T | List<T>): List<T> {
+  return depthFirst(tree).toList();
+}
+
+/**
+ * Builds trees from flat records referencing their parent, such as rows of a table.
+ * Keys are compared by value with `equals`. Records without a parent, or whose parent is missing, become roots.
+ * Records whose ancestors form a cycle, such as a record that is its own parent, are not reachable from a root and are left out.
+ * The order of the records is kept among siblings, and long chains of parents do not overflow the stack.
+ * @param {Iterable<T>} items - The flat records.
+ * @param {(item: T) => K} key - A function returning the key of each record.
+ * @param {(item: T) => Maybe<K>} parentKey - A function returning the key of the parent of each record, or null or undefined for roots.
+ * @returns {List<Nested<T>>} The roots of the trees, with their descendants in `children`.
+ * @function
+ * @example
+ * const rows = [
+ *   { id: 1, parentId: null, label: "root" },
+ *   { id: 2, parentId: 1, label: "a" },
+ * ];
+ * const forest = Tree.fromFlat(rows, (row) => row.id, (row) => row.parentId);
+ * // List [{ id: 1, parentId: null, label: "root", children: List [{ id: 2, parentId: 1, label: "a", children: List [] }] }]
+ */
+export function fromFlat<T extends Defined, K extends Defined>(
+  items: Iterable<T>,
+  key: (item: T) => K,
+  parentKey: (item: T) => Maybe<K>,
+): List<Nested<T>> {
+  const list = List.from(items);
+  const keys = list.map(key).toHashSet();
+  const parentOf = (item: T): Option<K> =>
+    Option.from(parentKey(item)).filter((parent) => keys.has(parent));
+  const childrenOf = list
+    .filter((item) => parentOf(item).isSome())
+    .groupBy((item) => parentOf(item).unwrap());
+  const nested = fold(
+    list.filter((item) => parentOf(item).isNone()),
+    (item) => childrenOf.get(key(item)).unwrapOr(List.empty()),
+    (item, children: Nested<T>[]): Nested<T> => ({
+      ...item,
+      children: List.from(children),
+    }),
+  );
+  return List.from(nested);
+}
+
+// Builds a value for every node from the node and the values of its children, bottom up and without recursion.
+function fold<T extends Defined, R>(
+  roots: Iterable<T>,
+  childrenOf: (node: T) => Iterable<T>,
+  fn: (node: T, children: R[]) => R,
+): R[] {
+  const results: R[] = [];
+  const stack: { node?: T; children: Iterator<T>; results: R[] }[] = [
+    { children: roots[Symbol.iterator](), results },
+  ];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const next = frame.children.next();
+    if (next.done) {
+      stack.pop();
+      if (isDefined(frame.node)) {
+        stack[stack.length - 1].results.push(fn(frame.node, frame.results));
+      }
+      continue;
+    }
+    stack.push({
+      node: next.value,
+      children: childrenOf(next.value)[Symbol.iterator](),
+      results: [],
+    });
+  }
+  return results;
+}
+
+function toForest<T extends Defined>(tree: T | List<T>): List<T> {
+  return tree instanceof List ? tree : List.of(tree);
+}
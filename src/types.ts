@@ -4,3 +4,5 @@ export type Defined = {};
 export type Maybe<T> = T | null | undefined;
 
 export type PlainObject = { [key: PropertyKey]: unknown };
+
+export type Awaitable<T> = T | PromiseLike<T>;
@@ -153,12 +153,34 @@ export function isDefined<T>(input: T): input is NonNullable<T> {
 }
 
 /**
- * Throws an error with the specified message and optional cause.
- * @param {string} message - The error message.
- * @param {unknown} cause - The optional cause of the error.
- * @throws {Error} The error with the specified message and cause.
+ * Throws the given error, or an error with the specified message and optional cause.
+ * @param {string | Error} messageOrError - The error message, or an Error instance (such as a tagged error) to throw as-is.
+ * @param {unknown} cause - The optional cause of the error, used when a message is given.
+ * @throws {Error} The given error, or an error with the specified message and cause.
  * @function
  */
-export function raise(message: string, cause?: unknown): never {
-  throw new Error(message, { cause });
+export function raise(error: Error): never;
+export function raise(message: string, cause?: unknown): never;
+export function raise(messageOrError: string | Error, cause?: unknown): never {
+  if (isString(messageOrError)) {
+    throw new Error(messageOrError, { cause });
+  }
+  throw messageOrError;
+}
+
+/**
+ * Converts an unknown thrown value into an Error. Error instances are returned as-is, any other value is wrapped in an Error whose cause is the original value.
+ * @param {unknown} cause - The thrown value.
+ * @returns {Error} An Error representing the thrown value.
+ * @function
+ */
+export function toError(cause: unknown): Error {
+  if (cause instanceof Error) return cause;
+  let message: string;
+  try {
+    message = String(cause);
+  } catch {
+    message = "Unknown error";
+  }
+  return new Error(message, { cause });
 }
@@ -0,0 +1,306 @@
+/**
+ * A node of a persistent, height-balanced (AVL) tree. The in-order traversal of the tree yields the elements,
+ * and every node records the size of its subtree so elements can be addressed by index.
+ */
+type Node<T> = {
+  readonly left: Tree<T>;
+  readonly value: T;
+  readonly right: Tree<T>;
+  readonly size: number;
+  readonly height: number;
+};
+
+type Tree<T> = Node<T> | undefined;
+
+/**
+ * An immutable, indexed sequence with structural sharing, used as the storage of List.
+ * Reading, replacing, inserting and removing a single element, as well as concatenating and slicing,
+ * run in O(log n) and share every untouched subtree with the original Vector.
+ * @internal
+ */
+export class Vector<T> implements Iterable<T> {
+  static #empty = new Vector<never>(undefined);
+
+  #root: Tree<T>;
+
+  private constructor(root: Tree<T>) {
+    this.#root = root;
+  }
+
+  /**
+   * Creates an empty Vector.
+   * @returns {Vector<T>} The empty Vector.
+   */
+  static empty<T>(): Vector<T> {
+    return Vector.#empty;
+  }
+
+  /**
+   * Creates a balanced Vector from an iterable in O(n).
+   * @param {Iterable<T>} iterable - The elements of the Vector.
+   * @returns {Vector<T>} A new Vector with the elements of the iterable.
+   */
+  static from<T>(iterable: Iterable<T>): Vector<T> {
+    const items = Array.isArray(iterable) ? iterable : Array.from(iterable);
+    return items.length === 0
+      ? Vector.empty()
+      : new Vector(build(items, 0, items.length));
+  }
+
+  /**
+   * The number of elements in the Vector.
+   */
+  get size(): number {
+    return size(this.#root);
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    const stack: Node<T>[] = [];
+    let current = this.#root;
+    return {
+      next(): IteratorResult<T, undefined> {
+        while (current) {
+          stack.push(current);
+          current = current.left;
+        }
+        const top = stack.pop();
+        if (!top) return { done: true, value: undefined };
+        current = top.right;
+        return { done: false, value: top.value };
+      },
+    };
+  }
+
+  /**
+   * Gets the element at a non-negative index.
+   * @param {number} index - The index of the element.
+   * @returns {T | undefined} The element, or undefined if the index is out of bounds.
+   */
+  get(index: number): T | undefined {
+    if (!this.#inBounds(index)) return undefined;
+    let current = this.#root;
+    while (current) {
+      const leftSize = size(current.left);
+      if (index === leftSize) return current.value;
+      if (index < leftSize) {
+        current = current.left;
+      } else {
+        index -= leftSize + 1;
+        current = current.right;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replaces the element at a non-negative index. Out of bounds indexes leave the Vector unchanged.
+   * @param {number} index - The index of the element.
+   * @param {T} value - The new element.
+   * @returns {Vector<T>} A new Vector with the element replaced.
+   */
+  set(index: number, value: T): Vector<T> {
+    if (!this.#inBounds(index)) return this;
+    return new Vector(set(this.#root, index, value));
+  }
+
+  /**
+   * Inserts an element before the given index, which is clamped to the bounds of the Vector.
+   * @param {number} index - The index at which the element is inserted.
+   * @param {T} value - The element to insert.
+   * @returns {Vector<T>} A new Vector with the element inserted.
+   */
+  insert(index: number, value: T): Vector<T> {
+    const [left, right] = split(this.#root, clamp(index, 0, this.size));
+    return new Vector(join(left, value, right));
+  }
+
+  /**
+   * Removes the element at a non-negative index. Out of bounds indexes leave the Vector unchanged.
+   * @param {number} index - The index of the element to remove.
+   * @returns {Vector<T>} A new Vector without the element.
+   */
+  remove(index: number): Vector<T> {
+    if (!this.#inBounds(index)) return this;
+    const [left, rest] = split(this.#root, index);
+    const [, right] = split(rest, 1);
+    return new Vector(join2(left, right));
+  }
+
+  /**
+   * Appends an element to the end of the Vector.
+   * @param {T} value - The element to append.
+   * @returns {Vector<T>} A new Vector with the element appended.
+   */
+  push(value: T): Vector<T> {
+    return new Vector(join(this.#root, value, undefined));
+  }
+
+  /**
+   * Concatenates another Vector to the end of this one.
+   * @param {Vector<T>} other - The Vector to concatenate.
+   * @returns {Vector<T>} A new Vector with the elements of both.
+   */
+  concat(other: Vector<T>): Vector<T> {
+    return new Vector(join2(this.#root, other.#root));
+  }
+
+  /**
+   * Extracts a section of the Vector. Indexes follow the semantics of `Array.prototype.slice`.
+   * @param {number} [start] - The index of the first element. Negative values count from the end.
+   * @param {number} [end] - The index before which to stop. Negative values count from the end.
+   * @returns {Vector<T>} A new Vector with the elements of the section.
+   */
+  slice(start = 0, end = this.size): Vector<T> {
+    const from = relative(start, this.size);
+    const to = relative(end, this.size);
+    if (from >= to) return Vector.empty();
+    const [, rest] = split(this.#root, from);
+    const [section] = split(rest, to - from);
+    return new Vector(section);
+  }
+
+  /**
+   * Copies the elements of the Vector into a new array.
+   * @returns {T[]} A new array with the elements of the Vector.
+   */
+  toArray(): T[] {
+    const items: T[] = [];
+    collect(this.#root, items);
+    return items;
+  }
+
+  #inBounds(index: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < this.size;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function relative(index: number, length: number): number {
+  const integer = Math.trunc(index) || 0;
+  return clamp(integer < 0 ? length + integer : integer, 0, length);
+}
+
+function size<T>(tree: Tree<T>): number {
+  return tree?.size ?? 0;
+}
+
+function height<T>(tree: Tree<T>): number {
+  return tree?.height ?? 0;
+}
+
+function node<T>(left: Tree<T>, value: T, right: Tree<T>): Node<T> {
+  return {
+    left,
+    value,
+    right,
+    size: size(left) + size(right) + 1,
+    height: Math.max(height(left), height(right)) + 1,
+  };
+}
+
+function collect<T>(tree: Tree<T>, items: T[]): void {
+  if (!tree) return;
+  collect(tree.left, items);
+  items.push(tree.value);
+  collect(tree.right, items);
+}
+
+function build<T>(items: ArrayLike<T>, start: number, end: number): Tree<T> {
+  if (start >= end) return undefined;
+  const middle = (start + end) >>> 1;
+  return node(
+    build(items, start, middle),
+    items[middle],
+    build(items, middle + 1, end),
+  );
+}
+
+function set<T>(tree: Tree<T>, index: number, value: T): Tree<T> {
+  if (!tree) return tree;
+  const leftSize = size(tree.left);
+  if (index < leftSize) {
+    return node(set(tree.left, index, value), tree.value, tree.right);
+  }
+  if (index > leftSize) {
+    return node(
+      tree.left,
+      tree.value,
+      set(tree.right, index - leftSize - 1, value),
+    );
+  }
+  return node(tree.left, value, tree.right);
+}
+
+function rotateLeft<T>(tree: Node<T>): Node<T> {
+  const right = tree.right!;
+  return node(
+    node(tree.left, tree.value, right.left),
+    right.value,
+    right.right,
+  );
+}
+
+function rotateRight<T>(tree: Node<T>): Node<T> {
+  const left = tree.left!;
+  return node(left.left, left.value, node(left.right, tree.value, tree.right));
+}
+
+// Joins two trees around a middle value when `left` is taller than `right`, descending its right spine.
+function joinRight<T>(left: Node<T>, value: T, right: Tree<T>): Node<T> {
+  if (height(left.right) <= height(right) + 1) {
+    const joined = node(left.right, value, right);
+    return height(joined) <= height(left.left) + 1
+      ? node(left.left, left.value, joined)
+      : rotateLeft(node(left.left, left.value, rotateRight(joined)));
+  }
+  const joined = joinRight(left.right!, value, right);
+  const tree = node(left.left, left.value, joined);
+  return height(joined) <= height(left.left) + 1 ? tree : rotateLeft(tree);
+}
+
+// Joins two trees around a middle value when `right` is taller than `left`, descending its left spine.
+function joinLeft<T>(left: Tree<T>, value: T, right: Node<T>): Node<T> {
+  if (height(right.left) <= height(left) + 1) {
+    const joined = node(left, value, right.left);
+    return height(joined) <= height(right.right) + 1
+      ? node(joined, right.value, right.right)
+      : rotateRight(node(rotateLeft(joined), right.value, right.right));
+  }
+  const joined = joinLeft(left, value, right.left!);
+  const tree = node(joined, right.value, right.right);
+  return height(joined) <= height(right.right) + 1 ? tree : rotateRight(tree);
+}
+
+function join<T>(left: Tree<T>, value: T, right: Tree<T>): Node<T> {
+  if (height(left) > height(right) + 1) return joinRight(left!, value, right);
+  if (height(right) > height(left) + 1) return joinLeft(left, value, right!);
+  return node(left, value, right);
+}
+
+function join2<T>(left: Tree<T>, right: Tree<T>): Tree<T> {
+  if (!left) return right;
+  if (!right) return left;
+  const [rest, last] = splitLast(left);
+  return join(rest, last, right);
+}
+
+function splitLast<T>(tree: Node<T>): [Tree<T>, T] {
+  if (!tree.right) return [tree.left, tree.value];
+  const [rest, last] = splitLast(tree.right);
+  return [join(tree.left, tree.value, rest), last];
+}
+
+// Splits a tree into its first `index` elements and the remaining ones.
+function split<T>(tree: Tree<T>, index: number): [Tree<T>, Tree<T>] {
+  if (!tree) return [undefined, undefined];
+  const leftSize = size(tree.left);
+  if (index <= leftSize) {
+    const [left, right] = split(tree.left, index);
+    return [left, join(right, tree.value, tree.right)];
+  }
+  const [left, right] = split(tree.right, index - leftSize - 1);
+  return [join(tree.left, tree.value, left), right];
+}
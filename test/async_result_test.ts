@@ -0,0 +1,152 @@
+import { assert, assertEquals, assertFalse, assertRejects } from "assert";
+import { assertSpyCall, assertSpyCalls, spy } from "mock";
+import { AsyncResult } from "../src/async_result.ts";
+import { TaggedError } from "../src/error.ts";
+import { Err, Ok, Result } from "../src/result.ts";
+import { assertErr, assertNone, assertOk, assertSome } from "./util.ts";
+
+const ok = (value = 10): AsyncResult<number, string> => AsyncResult.Ok(value);
+const err = (error = "oops"): AsyncResult<number, string> =>
+  AsyncResult.Err(error);
+
+Deno.test("AsyncResult.Ok", async () => {
+  assertOk(await AsyncResult.Ok(10), 10);
+});
+
+Deno.test("AsyncResult.Err", async () => {
+  assertErr(await AsyncResult.Err("oops"), "oops");
+});
+
+Deno.test("AsyncResult.from", async () => {
+  assertOk(await AsyncResult.from(Ok(10)), 10);
+  assertErr(await AsyncResult.from(Promise.resolve(Err("oops"))), "oops");
+});
+
+Deno.test("Result.toAsync", async () => {
+  assertOk(await Result.Ok(10).toAsync(), 10);
+  assertErr(await Result.Err("oops").toAsync(), "oops");
+});
+
+Deno.test("AsyncResult.match", async () => {
+  const onOk = (value: number) => Promise.resolve(value * 2);
+  const onErr = (error: string) => error.length;
+  assertEquals(await ok().match(onOk, onErr), 20);
+  assertEquals(await err().match(onOk, onErr), 4);
+});
+
+Deno.test("AsyncResult.isOk", async () => {
+  assert(await ok().isOk());
+  assertFalse(await err().isOk());
+});
+
+Deno.test("AsyncResult.isOkAnd", async () => {
+  assert(await ok().isOkAnd((value) => Promise.resolve(value === 10)));
+  assertFalse(await err().isOkAnd(() => true));
+});
+
+Deno.test("AsyncResult.isErr", async () => {
+  assert(await err().isErr());
+  assertFalse(await ok().isErr());
+});
+
+Deno.test("AsyncResult.ok", async () => {
+  assertSome(await ok().ok(), 10);
+  assertNone(await err().ok());
+});
+
+Deno.test("AsyncResult.map", async () => {
+  const f = (value: number) => Promise.resolve(value * 2);
+  assertOk(await ok().map(f), 20);
+  assertErr(await err().map(f), "oops");
+});
+
+Deno.test("AsyncResult.mapErr", async () => {
+  const f = (error: string) => error.toUpperCase();
+  assertOk(await ok().mapErr(f), 10);
+  assertErr(await err().mapErr(f), "OOPS");
+});
+
+Deno.test("AsyncResult.inspect", async () => {
+  const f = spy(() => Promise.resolve());
+
+  await err().inspect(f);
+  assertSpyCalls(f, 0);
+
+  assertOk(await ok().inspect(f), 10);
+  assertSpyCall(f, 0, { args: [10] });
+});
+
+Deno.test("AsyncResult.andThen", async () => {
+  const half = (value: number): AsyncResult<number, string> =>
+    value % 2 === 0 ? AsyncResult.Ok(value / 2) : AsyncResult.Err("odd");
+  const parse = (value: number) => Promise.resolve(Ok(value + 1));
+
+  assertOk(await ok().andThen(half).andThen(parse), 6);
+  assertErr(await ok(3).andThen(half).andThen(parse), "odd");
+  assertErr(await err().andThen(half), "oops");
+});
+
+Deno.test("AsyncResult.orElse", async () => {
+  const f = () => Ok(20);
+  assertOk(await ok().orElse(f), 10);
+  assertOk(await err().orElse(f), 20);
+});
+
+Deno.test("AsyncResult.unwrap", async () => {
+  assertEquals(await ok().unwrap(), 10);
+  await assertRejects(() => err().unwrap());
+});
+
+Deno.test("AsyncResult.unwrapOr", async () => {
+  assertEquals(await ok().unwrapOr(0), 10);
+  assertEquals(await err().unwrapOr(0), 0);
+});
+
+Deno.test("AsyncResult.unwrapOrElse", async () => {
+  const f = (error: string) => Promise.resolve(error.length);
+  assertEquals(await ok().unwrapOrElse(f), 10);
+  assertEquals(await err().unwrapOrElse(f), 4);
+});
+
+Deno.test("AsyncResult.gen", async () => {
+  const half = (value: number): AsyncResult<number, "odd"> =>
+    value % 2 === 0 ? AsyncResult.Ok(value / 2) : AsyncResult.Err("odd");
+  const positive = (value: number): Result<number, "negative"> =>
+    value >= 0 ? Ok(value) : Err("negative");
+
+  const compute = (input: number): AsyncResult<number, "odd" | "negative"> =>
+    AsyncResult.gen(async function* () {
+      const a = yield* positive(input);
+      const b = yield* half(a);
+      return await Promise.resolve(a + b);
+    });
+
+  assertOk(await compute(10), 15);
+  assertErr(await compute(-2), "negative");
+  assertErr(await compute(3), "odd");
+});
+
+Deno.test("AsyncResult.catchTag", async () => {
+  class NotFound extends TaggedError("NotFound") {}
+  class Forbidden extends TaggedError("Forbidden") {}
+
+  const find = (
+    error: NotFound | Forbidden,
+  ): AsyncResult<string, NotFound | Forbidden> => AsyncResult.Err(error);
+
+  assertOk(
+    await find(new NotFound()).catchTag("NotFound", () => Ok("guest")),
+    "guest",
+  );
+  assert(
+    (await find(new Forbidden()).catchTag("NotFound", () => Ok("guest")))
+      .isErrAnd((error) => error._tag === "Forbidden"),
+  );
+  assertEquals(
+    await find(new Forbidden()).matchTag(() => 200, {
+      NotFound: () => 404,
+      Forbidden: () => Promise.resolve(403),
+    }),
+    403,
+  );
+});
@@ -0,0 +1,144 @@
+import { assertEquals, assertRejects, assertThrows } from "assert";
+import { AsyncSeq } from "../src/async_seq.ts";
+import { List } from "../src/list.ts";
+import { assertErr, assertOk } from "./util.ts";
+
+const delay = <T>(ms: number, value: T): Promise<T> =>
+  new Promise((resolve) => setTimeout(() => resolve(value), ms));
+
+async function* numbers(count: number) {
+  for (let i = 1; i <= count; i++) {
+    yield await delay(1, i);
+  }
+}
+
+Deno.test("AsyncSeq.from", async () => {
+  assertEquals(await AsyncSeq.from(numbers(3)).toArray(), [1, 2, 3]);
+  assertEquals(
+    await AsyncSeq.of(1, Promise.resolve(2), 3).toArray(),
+    [1, 2, 3],
+  );
+  assertEquals(await AsyncSeq.empty().toArray(), []);
+});
+
+Deno.test("List.fromAsync", async () => {
+  const list = await List.fromAsync(numbers(3));
+  assertEquals(list.toArray(), [1, 2, 3]);
+});
+
+Deno.test("AsyncSeq.mapAsync", async () => {
+  const doubled = await AsyncSeq.from(numbers(3))
+    .mapAsync((n) => delay(1, n * 2))
+    .toList();
+  assertEquals(doubled.toArray(), [2, 4, 6]);
+});
+
+Deno.test("AsyncSeq.mapAsync limits concurrency", async () => {
+  let running = 0;
+  let peak = 0;
+  const result = await List.of(1, 2, 3, 4, 5, 6).mapAsync(async (n) => {
+    peak = Math.max(peak, ++running);
+    await delay(5, null);
+    running--;
+    return n;
+  }, { concurrency: 2 });
+
+  assertEquals(result.toArray(), [1, 2, 3, 4, 5, 6]);
+  assertEquals(peak, 2);
+
+  for (const concurrency of [0, 1.5, NaN]) {
+    const options = { concurrency };
+    const mapped = AsyncSeq.of(1).mapAsync((n) => n, options);
+    await assertRejects(() => mapped.toList(), RangeError);
+    const filtered = AsyncSeq.of(1).filterAsync(() => true, options);
+    await assertRejects(() => filtered.toList(), RangeError);
+    await assertRejects(
+      () => AsyncSeq.of(1).forEachAsync(() => {}, options),
+      RangeError,
+    );
+    const list = List.of(1);
+    await assertRejects(() => list.mapAsync((n) => n, options), RangeError);
+    await assertRejects(
+      () => list.filterAsync(() => true, options),
+      RangeError,
+    );
+    assertErr(await AsyncSeq.of(1).mapAsync((n) => n, options).toResult());
+  }
+});
+
+Deno.test("AsyncSeq.mapAsync ordered and unordered", async () => {
+  const slowFirst = (n: number) => delay(n === 1 ? 20 : 1, n);
+  const ordered = await List.of(1, 2, 3).mapAsync(slowFirst, {
+    concurrency: 3,
+  });
+  const unordered = await List.of(1, 2, 3).mapAsync(slowFirst, {
+    concurrency: 3,
+    ordered: false,
+  });
+
+  assertEquals(ordered.toArray(), [1, 2, 3]);
+  assertEquals(unordered.toArray(), [2, 3, 1]);
+});
+
+Deno.test("AsyncSeq.filterAsync", async () => {
+  const even = await List.of(1, 2, 3, 4).filterAsync(
+    (n) => delay(1, n % 2 === 0),
+    { concurrency: 2 },
+  );
+  assertEquals(even.toArray(), [2, 4]);
+});
+
+Deno.test("AsyncSeq.take", async () => {
+  let pulled = 0;
+  async function* counter() {
+    while (true) yield await delay(1, ++pulled);
+  }
+  assertEquals(await AsyncSeq.from(counter()).take(3).toArray(), [1, 2, 3]);
+  assertEquals(pulled, 3);
+  assertThrows(() => AsyncSeq.from(counter()).take(NaN), RangeError);
+});
+
+Deno.test("AsyncSeq.forEachAsync", async () => {
+  const seen: number[] = [];
+  await List.of(1, 2, 3).forEachAsync(async (n) => {
+    seen.push(await delay(1, n));
+  }, { concurrency: 3 });
+  assertEquals(seen.sort(), [1, 2, 3]);
+});
+
+Deno.test("AsyncSeq.toResult", async () => {
+  const fail = (n: number) =>
+    n === 2 ? Promise.reject(new Error("boom")) : delay(1, n);
+
+  const ok = await AsyncSeq.of(1, 3).mapAsync(fail).toResult();
+  assertOk(ok.map((list) => list.toArray()), [1, 3]);
+
+  const err = await AsyncSeq.of(1, 2, 3).mapAsync(fail, { concurrency: 2 })
+    .toResult((cause) => (cause as Error).message);
+  assertErr(err, "boom");
+});
+
+Deno.test("AsyncSeq aborts with the signal", async () => {
+  const controller = new AbortController();
+  const seq = AsyncSeq.from(numbers(100)).mapAsync(async (n) => {
+    if (n === 3) controller.abort(new Error("stop"));
+    return await delay(1, n);
+  }, { signal: controller.signal });
+
+  await assertRejects(() => seq.toList(), Error, "stop");
+});
+
+Deno.test("AsyncSeq aborts while the source is stalled", async () => {
+  async function* stalled() {
+    yield 1;
+    await new Promise(() => {});
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error("stop")), 50);
+  const seq = AsyncSeq.from(stalled()).mapAsync((n) => n, {
+    signal: controller.signal,
+  });
+
+  await assertRejects(() => seq.toList(), Error, "stop");
+  clearTimeout(timer);
+});
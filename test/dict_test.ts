@@ -0,0 +1,113 @@
+import { assert, assertEquals, assertFalse, assertStrictEquals } from "assert";
+import { Dict } from "../src/dict.ts";
+import { List } from "../src/list.ts";
+import { assertNone, assertSome } from "./util.ts";
+
+Deno.test("Dict.from", () => {
+  assertEquals(Dict.of(["a", 1], ["b", 2]).toRecord(), { a: 1, b: 2 });
+  assertEquals(Dict.from(new Map([["a", 1]])).toMap(), new Map([["a", 1]]));
+  assertEquals(Dict.fromRecord({ a: 1 }).toList().toArray(), [["a", 1]]);
+  assertEquals(Dict.of(["a", 1], ["a", 2]).toRecord(), { a: 2 });
+  assertEquals(Dict.empty().size, 0);
+});
+
+Deno.test("Dict.get", () => {
+  const key = { id: 1 };
+  const dict = Dict.of<object | number | string, number>([key, 1], [NaN, 2], [
+    0,
+    3,
+  ]);
+  assertSome(dict.get(key), 1);
+  assertSome(dict.get({ id: 1 }), 1);
+  assertNone(dict.get({ id: 2 }));
+  assertSome(dict.get(NaN), 2);
+  assertSome(dict.get(-0), 3);
+  assert(dict.has(key));
+  assertFalse(dict.has("missing"));
+});
+
+Deno.test("Dict.set", () => {
+  const dict = Dict.of(["a", 1]);
+  const updated = dict.set("b", 2);
+  assertEquals(dict.size, 1);
+  assertEquals(updated.size, 2);
+  assertStrictEquals(dict.set("a", 1), dict);
+});
+
+Deno.test("Dict.delete", () => {
+  const dict = Dict.of(["a", 1], ["b", 2]);
+  assertEquals(dict.delete("a").toRecord(), { b: 2 });
+  assertStrictEquals(dict.delete("c"), dict);
+});
+
+Deno.test("Dict.update", () => {
+  const dict = Dict.of(["a", 1]);
+  assertSome(dict.update("a", (n) => n + 1).get("a"), 2);
+  assertStrictEquals(dict.update("b", (n) => n + 1), dict);
+});
+
+Deno.test("Dict.merge", () => {
+  const a = Dict.of(["x", 1], ["y", 2]);
+  const b = Dict.of(["y", 3], ["z", 4]);
+  assertEquals(a.merge(b).toRecord(), { x: 1, y: 3, z: 4 });
+  assertEquals(
+    a.merge(b, (current, incoming) => current + incoming).toRecord(),
+    { x: 1, y: 5, z: 4 },
+  );
+});
+
+Deno.test("Dict.map and Dict.filter", () => {
+  const dict = Dict.of(["a", 1], ["b", 2]);
+  assertEquals(dict.map((n, key) => `${key}${n}`).toRecord(), {
+    a: "a1",
+    b: "b2",
+  });
+  assertEquals(dict.filter((n) => n > 1).toRecord(), { b: 2 });
+});
+
+Deno.test("Dict.keys and Dict.values", () => {
+  const dict = Dict.of(["a", 1], ["b", 2]);
+  assertEquals(dict.keys().toArray().sort(), ["a", "b"]);
+  assertEquals(dict.values().toArray().sort(), [1, 2]);
+});
+
+Deno.test("Dict order does not depend on insertion", () => {
+  const keys = Array.from({ length: 100 }, (_, i) => `key${i}`);
+  const forward = Dict.from(keys.map((key) => [key, 1]));
+  const backward = Dict.from(keys.toReversed().map((key) => [key, 1]));
+  assertEquals(forward.keys().toArray(), backward.keys().toArray());
+  assertEquals(forward.keys().toArray().sort(), keys.toSorted());
+});
+
+Deno.test("Dict with many keys", () => {
+  let dict = Dict.empty<number, number>();
+  for (let i = 0; i < 2000; i++) dict = dict.set(i, i * 2);
+  assertEquals(dict.size, 2000);
+  for (let i = 0; i < 2000; i += 2) dict = dict.delete(i);
+  assertEquals(dict.size, 1000);
+  assertSome(dict.get(1999), 3998);
+  assertNone(dict.get(1998));
+});
+
+Deno.test("List.groupBy", () => {
+  const groups = List.of("one", "two", "three").groupBy((word) => word.length);
+  assertEquals(groups.get(3).map((list) => list.toArray()).unwrap(), [
+    "one",
+    "two",
+  ]);
+  assertEquals(groups.get(5).map((list) => list.toArray()).unwrap(), [
+    "three",
+  ]);
+
+  const rows = List.of(
+    { name: "x", a: 1, b: 1 },
+    { name: "y", a: 1, b: 1 },
+    { name: "z", a: 2, b: 2 },
+  );
+  const byPair = rows.groupBy((row) => [row.a, row.b]);
+  assertEquals(byPair.size, 2);
+  assertSome(
+    byPair.get([1, 1]).map((group) => group.map((row) => row.name).toArray()),
+    ["x", "y"],
+  );
+});
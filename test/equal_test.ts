@@ -0,0 +1,81 @@
+import { assert, assertEquals, assertFalse } from "assert";
+import { Dict } from "../src/dict.ts";
+import { Equals, equals, Hash, hash } from "../src/equal.ts";
+import { HashSet } from "../src/hash_set.ts";
+import { List } from "../src/list.ts";
+import { None, Some } from "../src/option.ts";
+import { Err, Ok } from "../src/result.ts";
+import { assertNone, assertSome } from "./util.ts";
+
+class Point {
+  constructor(readonly x: number, readonly y: number) {}
+
+  [Equals](other: unknown): boolean {
+    return other instanceof Point && other.x === this.x && other.y === this.y;
+  }
+
+  // A constant hash forces every point into the same bucket.
+  [Hash](): number {
+    return 42;
+  }
+}
+
+Deno.test("equals", () => {
+  assert(equals(1, 1));
+  assert(equals(NaN, NaN));
+  assert(equals([1, [2, "a"]], [1, [2, "a"]]));
+  assert(equals({ a: 1, b: [2] }, { b: [2], a: 1 }));
+  assert(equals(new Date(0), new Date(0)));
+  assert(equals(new Point(1, 2), new Point(1, 2)));
+  assertFalse(equals([1, 2], [1, 2, 3]));
+  assertFalse(equals({ a: 1 }, { a: 1, b: 2 }));
+  assertFalse(equals({ a: undefined }, { b: undefined }));
+  assertFalse(equals(new Map(), new Map()));
+  assertFalse(equals("1", 1));
+});
+
+Deno.test("equals with Option, Result and List", () => {
+  assert(equals(Some([1, 2]), Some([1, 2])));
+  assert(equals(None, None));
+  assertFalse(equals(Some(1), None));
+  assert(equals(Ok({ a: 1 }), Ok({ a: 1 })));
+  assertFalse(equals(Ok(1), Err(1)));
+  assert(equals(List.of(Some(1), None), List.of(Some(1), None)));
+  assertFalse(equals(List.of(1), List.of(1, 2)));
+});
+
+Deno.test("hash", () => {
+  assertEquals(hash([1, "a"]), hash([1, "a"]));
+  assertEquals(hash({ a: 1, b: 2 }), hash({ b: 2, a: 1 }));
+  assertEquals(hash(Some(new Date(5))), hash(Some(new Date(5))));
+  assertEquals(hash(List.of(Ok(1))), hash(List.of(Ok(1))));
+  assertEquals(hash(new Point(0, 0)), 42);
+  assert(hash(Some(1)) !== hash(Some(2)));
+  assertEquals(hash(Symbol.for("a")), hash(Symbol.for("a")));
+  assert(hash(Symbol.for("a")) !== hash(Symbol.for("b")));
+});
+
+Deno.test("Dict keys with symbols", () => {
+  const [a, b] = [Symbol("id"), Symbol("id")];
+  const dict = Dict.of<symbol, number>([a, 1], [b, 2]);
+  assertSome(dict.get(a), 1);
+  assertSome(dict.get(b), 2);
+  assertNone(dict.get(Symbol("id")));
+});
+
+Deno.test("Dict and HashSet keys by value", () => {
+  const dict = Dict.of<[number, number], string>([[0, 0], "origin"]);
+  assertSome(dict.get([0, 0]), "origin");
+  assertEquals(HashSet.of(Some(1), Some(1), None).size, 2);
+});
+
+Deno.test("Dict keys with colliding hashes", () => {
+  let dict = Dict.empty<Point, number>();
+  for (let i = 0; i < 5; i++) dict = dict.set(new Point(i, i), i);
+  assertEquals(dict.size, 5);
+  assertSome(dict.get(new Point(3, 3)), 3);
+  dict = dict.delete(new Point(3, 3)).set(new Point(1, 1), 10);
+  assertEquals(dict.size, 4);
+  assertNone(dict.get(new Point(3, 3)));
+  assertSome(dict.get(new Point(1, 1)), 10);
+});
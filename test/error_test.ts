@@ -0,0 +1,32 @@
+import { assert, assertEquals, assertFalse, assertInstanceOf } from "assert";
+import { isTagged, TaggedError } from "../src/error.ts";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+class Forbidden extends TaggedError("Forbidden") {}
+
+Deno.test("TaggedError", () => {
+  const cause = new Error("missing row");
+  const error = new NotFound({ id: "42", message: "User not found", cause });
+
+  assertInstanceOf(error, NotFound);
+  assertInstanceOf(error, Error);
+  assertEquals(error._tag, "NotFound");
+  assertEquals(error.name, "NotFound");
+  assertEquals(error.id, "42");
+  assertEquals(error.message, "User not found");
+  assertEquals(error.cause, cause);
+
+  const forbidden = new Forbidden();
+  assertEquals(forbidden._tag, "Forbidden");
+  assertEquals(forbidden.message, "Forbidden");
+  assertFalse("cause" in forbidden);
+});
+
+Deno.test("isTagged", () => {
+  assert(isTagged(new Forbidden()));
+  assert(isTagged(new Forbidden(), "Forbidden"));
+  assert(isTagged({ _tag: "Plain" }, "Plain"));
+  assertFalse(isTagged(new Forbidden(), "NotFound"));
+  assertFalse(isTagged(new Error("oops")));
+  assertFalse(isTagged("Forbidden"));
+});
@@ -0,0 +1,48 @@
+import { assertEquals, assertInstanceOf } from "assert";
+import * as Graph from "../src/graph.ts";
+import { List } from "../src/list.ts";
+
+const graph = (edges: Record<string, string[]>) => (node: string) =>
+  edges[node] ?? [];
+
+Deno.test("Graph.topoSort", async (t) => {
+  await t.step("places dependencies first", () => {
+    const packages = graph({ app: ["http", "log"], http: ["log"], log: [] });
+    const sorted = Graph.topoSort(["app", "http", "log"], packages);
+    assertEquals(sorted.unwrap().toArray(), ["log", "http", "app"]);
+  });
+
+  await t.step("keeps the order of independent nodes", () => {
+    const sorted = Graph.topoSort(List.of("b", "a", "c"), graph({}));
+    assertEquals(sorted.unwrap().toArray(), ["b", "a", "c"]);
+  });
+
+  await t.step("includes dependencies missing from the nodes", () => {
+    const sorted = Graph.topoSort(["app"], graph({ app: ["log"] }));
+    assertEquals(sorted.unwrap().toArray(), ["log", "app"]);
+  });
+
+  await t.step("compares nodes by value", () => {
+    const sorted = Graph.topoSort(
+      [[1, 2], [0, 1]],
+      ([, b]) => b === 2 ? [[0, 1]] : [],
+    );
+    assertEquals(sorted.unwrap().toArray(), [[0, 1], [1, 2]]);
+  });
+
+  await t.step("returns the cycle", () => {
+    const cycle = Graph.topoSort(
+      ["a"],
+      graph({ a: ["b"], b: ["c"], c: ["b"] }),
+    ).unwrapErr();
+    assertInstanceOf(cycle, Graph.Cycle);
+    assertEquals(cycle._tag, "Cycle");
+    assertEquals(cycle.path.toArray(), ["b", "c", "b"]);
+  });
+
+  await t.step("handles long chains", () => {
+    const nodes = Array.from({ length: 20_000 }, (_, i) => i);
+    const sorted = Graph.topoSort(nodes, (n) => n > 0 ? [n - 1] : []);
+    assertEquals(sorted.unwrap().toArray(), nodes);
+  });
+});
@@ -0,0 +1,39 @@
+import { assert, assertEquals, assertFalse, assertStrictEquals } from "assert";
+import { HashSet } from "../src/hash_set.ts";
+import { List } from "../src/list.ts";
+
+const sorted = (set: HashSet<number>) => set.toArray().sort((a, b) => a - b);
+
+Deno.test("HashSet.from", () => {
+  assertEquals(sorted(HashSet.of(1, 2, 2, 3)), [1, 2, 3]);
+  assertEquals(HashSet.from(new Set([1])).toSet(), new Set([1]));
+  assertEquals(sorted(List.of(3, 1, 3).toHashSet()), [1, 3]);
+  assertEquals(HashSet.empty().size, 0);
+});
+
+Deno.test("HashSet.add and HashSet.delete", () => {
+  const set = HashSet.of(1, 2);
+  assertEquals(sorted(set.add(3)), [1, 2, 3]);
+  assertStrictEquals(set.add(1), set);
+  assertEquals(sorted(set.delete(1)), [2]);
+  assertStrictEquals(set.delete(3), set);
+  assert(set.has(1));
+  assertFalse(set.has(3));
+});
+
+Deno.test("HashSet.union, intersection and difference", () => {
+  const a = HashSet.of(1, 2, 3);
+  const b = HashSet.of(2, 3, 4);
+  assertEquals(sorted(a.union(b)), [1, 2, 3, 4]);
+  assertEquals(sorted(a.intersection(b)), [2, 3]);
+  assertEquals(sorted(a.difference(b)), [1]);
+  assert(HashSet.of(2, 3).isSubsetOf(a));
+  assertFalse(b.isSubsetOf(a));
+});
+
+Deno.test("HashSet.map and HashSet.filter", () => {
+  const set = HashSet.of(1, 2, 3, 4);
+  assertEquals(sorted(set.map((n) => n % 2)), [0, 1]);
+  assertEquals(sorted(set.filter((n) => n > 2)), [3, 4]);
+  assertEquals(set.toList().toArray().length, 4);
+});
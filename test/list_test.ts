@@ -0,0 +1,487 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "assert";
+import { List } from "../src/list.ts";
+import { None, Some } from "../src/option.ts";
+import { SeededRandom } from "../src/random.ts";
+import { Defined } from "../src/types.ts";
+import { assertNone } from "./util.ts";
+
+const nested = <T extends Defined>(list: List<List<T>>) =>
+  list.map((inner) => inner.toArray()).toArray();
+
+Deno.test("List.at", () => {
+  const list = List.of("a", "b", "c");
+  assertEquals(list.at(1), Some("b"));
+  assertEquals(list.at(1.5), Some("b"));
+  assertEquals(list.at(-1), Some("c"));
+  assertEquals(list.at(NaN), Some("a"));
+  assertNone(list.at(3));
+  assertNone(list.at(-4));
+});
+
+Deno.test("List.insert", () => {
+  const list = List.of("a", "b", "c");
+  assertEquals(list.insert("x", 1).toArray(), ["a", "x", "b", "c"]);
+  assertEquals(list.insert("x", 1.5).toArray(), ["a", "x", "b", "c"]);
+  assertEquals(list.insert("x", -1).toArray(), ["a", "b", "x", "c"]);
+  assertEquals(list.insert("x", 10).toArray(), ["a", "b", "c", "x"]);
+  assertEquals(list.insert("x", -10).toArray(), ["x", "a", "b", "c"]);
+});
+
+Deno.test("List.remove", () => {
+  const list = List.of("a", "b", "c");
+  assertEquals(list.remove(1).toArray(), ["a", "c"]);
+  assertEquals(list.remove(1.5).toArray(), ["a", "c"]);
+  assertEquals(list.remove(-1).toArray(), ["a", "b"]);
+  assertEquals(list.remove(3).toArray(), ["a", "b", "c"]);
+  assertEquals(list.remove(-5).toArray(), ["a", "b", "c"]);
+});
+
+Deno.test("List.includes", () => {
+  const list = List.of(Some(1), None);
+  assert(list.includes(Some(1)));
+  assertFalse(list.includes(Some(2)));
+  assert(List.of("A").includes("a", (a, b) => a.toLowerCase() === b));
+});
+
+Deno.test("List.uniq", () => {
+  assertEquals(List.of(1, 2, 1).uniq().toArray(), [1, 2]);
+  assertEquals(List.of([1, 2], [1, 2], [2, 1]).uniq().toArray(), [[1, 2], [
+    2,
+    1,
+  ]]);
+  assertEquals(
+    List.of({ id: 1, v: "a" }, { id: 1, v: "b" }).uniq((item) => item.id)
+      .toArray(),
+    [{ id: 1, v: "a" }],
+  );
+  assertEquals(
+    List.of({ id: 1 }, { id: 1 }, { id: 2 })
+      .uniq((item, _index?: number) => item.id)
+      .toArray(),
+    [{ id: 1 }, { id: 2 }],
+  );
+});
+
+Deno.test("List.uniqWith", () => {
+  assertEquals(
+    List.of("Apple", "apple", "Banana")
+      .uniqWith((a, b) => a.toLowerCase() === b.toLowerCase())
+      .toArray(),
+    ["Apple", "Banana"],
+  );
+});
+
+Deno.test("List.intersection", () => {
+  const a = List.of(Some(1), Some(2), None);
+  const b = List.of(Some(2), None);
+  assertEquals(a.intersection(b).toArray(), [Some(2), None]);
+  assertEquals(
+    List.of("A", "B").intersection(
+      List.of("a"),
+      (x, y) => x.toLowerCase() === y.toLowerCase(),
+    ).toArray(),
+    ["A"],
+  );
+});
+
+Deno.test("List.difference", () => {
+  const a = List.of(new Date(0), new Date(1));
+  const b = List.of(new Date(1));
+  assertEquals(a.difference(b).toArray(), [new Date(0)]);
+  assertEquals(
+    List.of(1, 2, 3).difference(List.of(2), (x, y) => x === y).toArray(),
+    [1, 3],
+  );
+});
+
+Deno.test("List.chunk", () => {
+  assertEquals(nested(List.of(1, 2, 3, 4, 5).chunk(2)), [[1, 2], [3, 4], [5]]);
+  assertEquals(nested(List.empty<number>().chunk(2)), []);
+  assertThrows(() => List.of(1).chunk(0), RangeError);
+});
+
+Deno.test("List.windowed", () => {
+  const list = List.of(1, 2, 3, 4, 5);
+  assertEquals(nested(list.windowed(3)), [[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+  assertEquals(nested(list.windowed(2, 2)), [[1, 2], [3, 4]]);
+  assertEquals(nested(list.windowed(2, 2, { partial: true })), [
+    [1, 2],
+    [3, 4],
+    [5],
+  ]);
+  assertEquals(nested(list.windowed(6)), []);
+  assertThrows(() => list.windowed(2, 0), RangeError);
+});
+
+Deno.test("List.pairwise", () => {
+  assertEquals(List.of(1, 2, 3).pairwise().toArray(), [[1, 2], [2, 3]]);
+  assertEquals(List.of(1).pairwise().toArray(), []);
+});
+
+Deno.test("List.scan", () => {
+  assertEquals(List.of(5, 10, 20).scan(0, (a, b) => a + b).toArray(), [
+    5,
+    15,
+    35,
+  ]);
+});
+
+Deno.test("List.splitAt", () => {
+  const list = List.of("a", "b", "c");
+  const toArrays = ([a, b]: [List<string>, List<string>]) => [
+    a.toArray(),
+    b.toArray(),
+  ];
+  assertEquals(list.splitAt(1).map(toArrays).unwrap(), [["a"], ["b", "c"]]);
+  assertEquals(list.splitAt(-1).map(toArrays).unwrap(), [["a", "b"], ["c"]]);
+  assertEquals(list.splitAt(3).map(toArrays).unwrap(), [["a", "b", "c"], []]);
+  assertEquals(list.splitAt(1.5).map(toArrays).unwrap(), [["a"], ["b", "c"]]);
+  assertEquals(list.splitAt(-1.5).map(toArrays).unwrap(), [["a", "b"], ["c"]]);
+  assertNone(list.splitAt(4));
+  assertNone(list.splitAt(-4));
+});
+
+Deno.test("List.splitWhen", () => {
+  const list = List.of(1, 2, 3, 4);
+  const [before, after] = list.splitWhen((n) => n > 2).unwrap();
+  assertEquals([before.toArray(), after.toArray()], [[1, 2], [3, 4]]);
+  assertNone(list.splitWhen((n) => n > 10));
+});
+
+Deno.test("List.span", () => {
+  const [small, rest] = List.of(1, 2, 5, 1).span((n) => n < 3);
+  assertEquals([small.toArray(), rest.toArray()], [[1, 2], [5, 1]]);
+});
+
+Deno.test("List.interleave", () => {
+  assertEquals(List.of("a", "b", "c").interleave(List.of("x")).toArray(), [
+    "a",
+    "x",
+    "b",
+    "c",
+  ]);
+});
+
+Deno.test("List.intersperse", () => {
+  assertEquals(List.of("a", "b", "c").intersperse(",").toArray(), [
+    "a",
+    ",",
+    "b",
+    ",",
+    "c",
+  ]);
+  assertEquals(List.empty<string>().intersperse(",").toArray(), []);
+});
+
+Deno.test("List.transpose", () => {
+  const matrix = List.of(List.of(1, 2, 3), List.of(4, 5), List.of(6));
+  assertEquals(nested(matrix.transpose()), [[1, 4, 6], [2, 5], [3]]);
+});
+
+Deno.test("List.countBy", () => {
+  const counts = List.of("apple", "avocado", "banana").countBy((w) => w[0]);
+  assertEquals(counts.toRecord(), { a: 2, b: 1 });
+
+  const pairs = List.of([1, 1], [1, 1], [2, 2]).countBy(([a, b]) => [a, b]);
+  assertEquals(pairs.get([1, 1]), Some(2));
+  assertEquals(pairs.get([2, 2]), Some(1));
+});
+
+Deno.test("List.frequencies", () => {
+  const counts = List.of([1, 2], [3], [1, 2]).frequencies();
+  assertEquals(counts.get([1, 2]), Some(2));
+  assertEquals(counts.get([3]), Some(1));
+});
+
+Deno.test("List.aggregate", () => {
+  const orders = List.of({ total: 30 }, { total: 12 });
+  const aggregators = {
+    revenue: {
+      initialValue: 0,
+      reducer: (sum: number, order: { total: number }) => sum + order.total,
+    },
+    count: { initialValue: 0, reducer: (count: number) => count + 1 },
+  };
+  assertEquals(orders.aggregate(aggregators), Some({ revenue: 42, count: 2 }));
+  assertNone(List.empty<{ total: number }>().aggregate(aggregators));
+});
+
+Deno.test("List.sum and List.sumBy", () => {
+  assertEquals(List.of(1, 2, 3).sum(), Some(6));
+  assertNone(List.empty<number>().sum());
+  assertEquals(List.of({ n: 2 }, { n: 5 }).sumBy(({ n }) => n), Some(7));
+  assertNone(List.empty<{ n: number }>().sumBy(({ n }) => n));
+});
+
+Deno.test("List.average", () => {
+  assertEquals(List.of(1, 2, 6).average(), Some(3));
+  assertNone(List.empty<number>().average());
+});
+
+Deno.test("List.median", () => {
+  assertEquals(List.of(3, 1, 2).median(), Some(2));
+  assertEquals(List.of(4, 1, 3, 2).median(), Some(2.5));
+  assertEquals(List.of(10, 9, 100).median(), Some(10));
+  assertNone(List.empty<number>().median());
+});
+
+Deno.test("List.percentile", () => {
+  const list = List.of(50, 10, 40, 20, 30);
+  assertEquals(list.percentile(0), Some(10));
+  assertEquals(list.percentile(90), Some(46));
+  assertEquals(list.percentile(100), Some(50));
+  assertNone(List.empty<number>().percentile(50));
+  assertThrows(() => list.percentile(101), RangeError);
+  assertThrows(() => list.percentile(NaN), RangeError);
+});
+
+Deno.test("List.shuffle with a seeded random", () => {
+  const list = List.of(1, 2, 3, 4, 5, 6, 7, 8);
+  const shuffled = list.shuffle(SeededRandom.from(42));
+  assertEquals(
+    shuffled.toArray(),
+    list.shuffle(SeededRandom.from(42)).toArray(),
+  );
+  assertEquals(shuffled.sort((a, b) => a - b).toArray(), list.toArray());
+});
+
+Deno.test("List.random with a seeded random", () => {
+  const list = List.of("a", "b", "c");
+  assertEquals(
+    list.random(SeededRandom.from(9)),
+    list.random(SeededRandom.from(9)),
+  );
+  assertNone(List.empty<string>().random(SeededRandom.from(9)));
+});
+
+Deno.test("List.sample", () => {
+  const list = List.of(1, 2, 3, 4, 5, 6, 7, 8);
+  const sample = list.sample(3, SeededRandom.from(5));
+  assertEquals(sample.toArray().length, 3);
+  assertEquals(new Set(sample).size, 3);
+  assert(sample.toArray().every((n) => list.includes(n)));
+  assertEquals(
+    sample.toArray(),
+    list.sample(3, SeededRandom.from(5)).toArray(),
+  );
+  assertEquals(list.sample(20).sort((a, b) => a - b).toArray(), list.toArray());
+  assertThrows(() => list.sample(1.5), RangeError);
+});
+
+Deno.test("List.sampleWeighted", () => {
+  const list = List.of({ name: "never", weight: 0 }, { name: "a", weight: 1 }, {
+    name: "b",
+    weight: 1000,
+  });
+  const rng = SeededRandom.from(11);
+  const picks = Array.from(
+    { length: 100 },
+    () => list.sampleWeighted(1, (item) => item.weight, rng).toArray()[0].name,
+  );
+  assert(picks.filter((name) => name === "b").length > 90);
+  assertFalse(picks.includes("never"));
+  assertEquals(
+    list.sampleWeighted(5, (item) => item.weight).map(({ name }) => name)
+      .toArray().sort(),
+    ["a", "b"],
+  );
+  assertThrows(() => list.sampleWeighted(1, () => -1), RangeError);
+  assertThrows(() => list.sampleWeighted(1, () => NaN), RangeError);
+});
+
+const users = List.of(
+  { id: 1, name: "alice" },
+  { id: 2, name: "bob" },
+  { id: 3, name: "carol" },
+);
+const orders = List.of(
+  { userId: 1, total: 30 },
+  { userId: 4, total: 5 },
+  { userId: 1, total: 12 },
+  { userId: 2, total: 7 },
+);
+const userId = (user: { id: number }) => user.id;
+const orderUserId = (order: { userId: number }) => order.userId;
+
+Deno.test("List.join", () => {
+  const joined = users.join(orders, userId, orderUserId)
+    .map(([user, order]) => [user.name, order.total]);
+  assertEquals(joined.toArray(), [["alice", 30], ["alice", 12], ["bob", 7]]);
+});
+
+Deno.test("List.join with composite keys", () => {
+  const left = List.of({ org: "a", id: 1, name: "x" });
+  const right = List.of({ org: "a", id: 1, role: "admin" }, {
+    org: "b",
+    id: 1,
+    role: "guest",
+  });
+  const joined = left.join(
+    right,
+    ({ org, id }) => [org, id],
+    ({ org, id }) => [org, id],
+  );
+  assertEquals(joined.map(([, r]) => r.role).toArray(), ["admin"]);
+});
+
+Deno.test("List.join matches every element sharing a composite key", () => {
+  const left = List.of({ org: "a", id: 1, name: "x" }, {
+    org: "a",
+    id: 1,
+    name: "y",
+  });
+  const right = List.of({ org: "a", id: 1, role: "admin" }, {
+    org: "a",
+    id: 1,
+    role: "owner",
+  });
+  const key = ({ org, id }: { org: string; id: number }) => [org, id] as const;
+  const joined = left.join(right, key, key)
+    .map(([l, r]) => [l.name, r.role]);
+  assertEquals(joined.toArray(), [
+    ["x", "admin"],
+    ["x", "owner"],
+    ["y", "admin"],
+    ["y", "owner"],
+  ]);
+  const full = left.fullJoin(right, key, key);
+  assertEquals(full.toArray().length, 4);
+});
+
+Deno.test("List.leftJoin", () => {
+  const joined = users.leftJoin(orders, userId, orderUserId)
+    .map(([user, order]) => [user.name, order.map((o) => o.total)]);
+  assertEquals(joined.toArray(), [
+    ["alice", Some(30)],
+    ["alice", Some(12)],
+    ["bob", Some(7)],
+    ["carol", None],
+  ]);
+});
+
+Deno.test("List.rightJoin", () => {
+  const joined = users.rightJoin(orders, userId, orderUserId)
+    .map(([user, order]) => [user.map((u) => u.name), order.total]);
+  assertEquals(joined.toArray(), [
+    [Some("alice"), 30],
+    [None, 5],
+    [Some("alice"), 12],
+    [Some("bob"), 7],
+  ]);
+});
+
+Deno.test("List.fullJoin", () => {
+  const joined = users.fullJoin(orders, userId, orderUserId).map((
+    [user, order],
+  ) => [user.map((u) => u.name), order.map((o) => o.total)]);
+  assertEquals(joined.toArray(), [
+    [Some("alice"), Some(30)],
+    [Some("alice"), Some(12)],
+    [Some("bob"), Some(7)],
+    [Some("carol"), None],
+    [None, Some(5)],
+  ]);
+});
+
+Deno.test("List.semiJoin and List.antiJoin", () => {
+  const names = (list: List<{ name: string }>) =>
+    list.map(({ name }) => name).toArray();
+  assertEquals(names(users.semiJoin(orders, userId, orderUserId)), [
+    "alice",
+    "bob",
+  ]);
+  assertEquals(names(users.antiJoin(orders, userId, orderUserId)), ["carol"]);
+});
+
+Deno.test("List.diff", async (t) => {
+  await t.step("inserts and removes without a key", () => {
+    const ops = List.of("a", "b", "c").diff(List.of("a", "c", "d"));
+    assertEquals(ops.toArray(), [
+      { type: "remove", index: 1, item: "b" },
+      { type: "insert", index: 2, item: "d" },
+    ]);
+  });
+
+  await t.step("moves the fewest elements", () => {
+    const ops = List.of(1, 2, 3, 4, 5).diff(List.of(2, 3, 4, 5, 1));
+    assertEquals(ops.toArray(), [{ type: "move", from: 0, to: 4, item: 1 }]);
+  });
+
+  await t.step("updates elements with the same key", () => {
+    const prev = List.of({ id: 1, done: false }, { id: 2, done: false });
+    const next = List.of({ id: 2, done: true }, { id: 3, done: false });
+    const ops = prev.diff(next, { key: (todo) => todo.id });
+    assertEquals(ops.toArray(), [
+      { type: "remove", index: 0, item: { id: 1, done: false } },
+      { type: "insert", index: 1, item: { id: 3, done: false } },
+      {
+        type: "update",
+        index: 0,
+        prev: { id: 2, done: false },
+        item: { id: 2, done: true },
+      },
+    ]);
+  });
+
+  await t.step("returns no operations for equal lists", () => {
+    assertEquals(List.of(1, 2).diff(List.of(1, 2)).toArray(), []);
+  });
+
+  await t.step("round trips through patch", () => {
+    const rng = SeededRandom.from(19);
+    const randomList = () =>
+      List.from(
+        Array.from(
+          { length: Math.floor(rng.next() * 12) },
+          () => Math.floor(rng.next() * 8),
+        ),
+      );
+    for (let i = 0; i < 200; i++) {
+      const prev = randomList();
+      const next = randomList();
+      assertEquals(
+        prev.patch(prev.diff(next)).unwrap().toArray(),
+        next.toArray(),
+      );
+      const keyed = prev.diff(next, { key: (n) => n % 3 });
+      assertEquals(prev.patch(keyed).unwrap().toArray(), next.toArray());
+    }
+  });
+
+  await t.step("reverses a long list", () => {
+    const prev = List.from(Array.from({ length: 20_000 }, (_, i) => i));
+    const next = prev.reverse();
+    const ops = prev.diff(next);
+    assertEquals(ops.toArray().length, 19_999);
+    assertEquals(prev.patch(ops).unwrap().toArray(), next.toArray());
+  });
+});
+
+Deno.test("List.patch", () => {
+  const list = List.of("a", "b", "c");
+  assertEquals(
+    list.patch([
+      { type: "move", from: 0, to: 2, item: "a" },
+      { type: "update", index: 0, prev: "b", item: "B" },
+      { type: "insert", index: 0, item: "z" },
+    ]).unwrap().toArray(),
+    ["z", "B", "c", "a"],
+  );
+
+  const error = list.patch([
+    { type: "remove", index: 0, item: "a" },
+    { type: "remove", index: 0, item: "a" },
+  ]).unwrapErr();
+  assertEquals(error._tag, "PatchError");
+  assertEquals(error.position, 1);
+  assertEquals(error.op, { type: "remove", index: 0, item: "a" });
+
+  assert(list.patch([{ type: "insert", index: 4, item: "d" }]).isErr());
+  assert(list.patch([{ type: "move", from: 0, to: 3, item: "a" }]).isErr());
+  assert(list.patch([{ type: "insert", index: 1.5, item: "d" }]).isErr());
+  assert(list.patch([{ type: "remove", index: 0.5, item: "a" }]).isErr());
+  assert(list.patch([{ type: "move", from: 0, to: 1.5, item: "a" }]).isErr());
+  assert(
+    list.patch([{ type: "update", index: NaN, prev: "a", item: "A" }]).isErr(),
+  );
+});
@@ -0,0 +1,99 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "assert";
+import { isMatching, match, P } from "../src/match.ts";
+import { None, type Option, Some } from "../src/option.ts";
+import { Err, Ok, type Result } from "../src/result.ts";
+import * as z from "../src/schema.ts";
+
+const shapeSchema = z.union([
+  z.object({ type: z.literal("circle"), radius: z.number() }),
+  z.object({ type: z.literal("square"), size: z.number() }),
+]);
+
+type Shape = z.Infer<typeof shapeSchema>;
+
+Deno.test("match with literals", () => {
+  const describe = (value: "a" | "b" | "c") =>
+    match(value)
+      .with("a", () => 1)
+      .with("b", () => 2)
+      .with(P.string, (rest) => rest.length * 10)
+      .exhaustive();
+
+  assertEquals(describe("a"), 1);
+  assertEquals(describe("b"), 2);
+  assertEquals(describe("c"), 10);
+});
+
+Deno.test("match with discriminated unions", () => {
+  const area = (shape: Shape) =>
+    match(shape)
+      .with({ type: "circle" }, (circle) => Math.PI * circle.radius ** 2)
+      .with({ type: "square" }, (square) => square.size ** 2)
+      .exhaustive();
+
+  assertEquals(area({ type: "square", size: 3 }), 9);
+  assertEquals(area({ type: "circle", radius: 1 }), Math.PI);
+  assertEquals(
+    area(shapeSchema.parse({ type: "square", size: 2 }).unwrap()),
+    4,
+  );
+});
+
+Deno.test("match with nested Option and Result patterns", () => {
+  const greet = (result: Result<Option<string>, number>) =>
+    match(result)
+      .with(P.ok(P.some("admin")), () => "Welcome back")
+      .with(P.ok(P.some()), (name) => `Hello ${name}`)
+      .with(P.ok(P.none), () => "Hello stranger")
+      .with(P.err(), (code) => `Error ${code}`)
+      .exhaustive();
+
+  assertEquals(greet(Ok(Some("admin"))), "Welcome back");
+  assertEquals(greet(Ok(Some("Ada"))), "Hello Ada");
+  assertEquals(greet(Ok(None)), "Hello stranger");
+  assertEquals(greet(Err(404)), "Error 404");
+});
+
+Deno.test("match with guards", () => {
+  const sign = (value: Option<number>) =>
+    match(value)
+      .with(P.some(), (n) => n > 0, () => "positive")
+      .with(P.some(P.when((n: number) => n < 0)), () => "negative")
+      .with(P.some(), () => "zero")
+      .with(P.none, () => "none")
+      .exhaustive();
+
+  assertEquals(sign(Some(2)), "positive");
+  assertEquals(sign(Some(-2)), "negative");
+  assertEquals(sign(Some(0)), "zero");
+  assertEquals(sign(None), "none");
+});
+
+Deno.test("match.otherwise", () => {
+  const value = match<number>(42)
+    .with(1, () => "one")
+    .otherwise((n) => `other ${n}`);
+  assertEquals(value, "other 42");
+});
+
+Deno.test("match.exhaustive requires every case", () => {
+  const area = (shape: Shape) =>
+    match(shape)
+      .with({ type: "circle" }, (circle) => circle.radius)
+      // @ts-expect-error: the square case is not handled
+      .exhaustive();
+  assertThrows(() => area({ type: "square", size: 1 }));
+});
+
+Deno.test("match.exhaustive throws on unhandled values", () => {
+  const value = "d" as "a";
+  assertThrows(() => match(value).with("a", () => 1).exhaustive());
+});
+
+Deno.test("isMatching", () => {
+  assert(isMatching({ type: "circle" }, { type: "circle", radius: 1 }));
+  assert(isMatching(P.some(P.number), Some(1)));
+  assertFalse(isMatching(P.some(P.number), Some("1")));
+  assertFalse(isMatching({ type: "circle" }, "circle"));
+  assertFalse(isMatching(P.ok(), Err("oops")));
+});
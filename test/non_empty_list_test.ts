@@ -0,0 +1,90 @@
+import { assert, assertEquals, assertFalse } from "assert";
+import { equals } from "../src/equal.ts";
+import { List, NonEmptyList } from "../src/list.ts";
+import * as Ord from "../src/ord.ts";
+import { assertNone, assertSome } from "./util.ts";
+
+Deno.test("NonEmptyList.of", () => {
+  assertEquals(NonEmptyList.of(1).toArray(), [1]);
+  assertEquals(NonEmptyList.of(1, 2, 3).toArray(), [1, 2, 3]);
+});
+
+Deno.test("List.toNonEmpty", () => {
+  assertEquals(List.of("a").toNonEmpty().unwrap().firstItem(), "a");
+  assertNone(List.empty<string>().toNonEmpty());
+});
+
+Deno.test("NonEmptyList is a List", () => {
+  const list: List<number> = NonEmptyList.of(1, 2, 3);
+  assert(list instanceof List);
+  assertSome(list.first(), 1);
+  assertEquals(list.flatMap((n) => [n, n]).toArray(), [
+    1,
+    1,
+    2,
+    2,
+    3,
+    3,
+  ]);
+  assert(list.includes(2));
+  assertSome(list.find((n) => n > 1), 2);
+});
+
+Deno.test("NonEmptyList.firstItem and NonEmptyList.lastItem", () => {
+  const list = NonEmptyList.of("a", "b", "c");
+  assertEquals(list.firstItem(), "a");
+  assertEquals(list.lastItem(), "c");
+  assertEquals(NonEmptyList.of("x").lastItem(), "x");
+});
+
+Deno.test("NonEmptyList.at", () => {
+  const list = NonEmptyList.of(1, 2);
+  assertSome(list.at(-1), 2);
+  assertNone(list.at(2));
+});
+
+Deno.test("NonEmptyList.reduce1", () => {
+  assertEquals(NonEmptyList.of(1, 2, 3).reduce1((a, b) => a + b), 6);
+  assertEquals(NonEmptyList.of("x").reduce1((a, b) => a + b), "x");
+});
+
+Deno.test("NonEmptyList.min and NonEmptyList.max", () => {
+  const list = NonEmptyList.of(3, 10, 2);
+  assertEquals(list.min(), 2);
+  assertEquals(list.max(), 10);
+  assertEquals(list.min(Ord.reverse(Ord.number)), 10);
+  assertEquals(NonEmptyList.of("b", "a").max(), "b");
+});
+
+Deno.test("NonEmptyList operations keep the list non-empty", () => {
+  const list = NonEmptyList.of(3, 1, 2);
+  const mapped: NonEmptyList<string> = list.map(String);
+  assertEquals(mapped.toArray(), ["3", "1", "2"]);
+  assertEquals(list.sort((a, b) => a - b).toArray(), [1, 2, 3]);
+  assertEquals(list.sortBy((n) => -n).toArray(), [3, 2, 1]);
+  assertEquals(list.reverse().firstItem(), 2);
+  assertEquals(list.append(4).lastItem(), 4);
+  assertEquals(list.prepend(0).firstItem(), 0);
+  assertEquals(list.insert(0, 0).firstItem(), 0);
+  assertEquals(list.insertSorted(5).lastItem(), 5);
+  assertEquals(list.filter((n) => n > 5).toArray(), []);
+});
+
+Deno.test("NonEmptyList equality", () => {
+  assert(equals(NonEmptyList.of([1], [2]), NonEmptyList.of([1], [2])));
+  assertFalse(equals(NonEmptyList.of(1), NonEmptyList.of(2)));
+  assert(equals(NonEmptyList.of(1), List.of(1)));
+});
+
+Deno.test("NonEmptyList conversions", () => {
+  const list = NonEmptyList.of(1, 2);
+  assert(list.toList() instanceof List);
+  assertEquals(JSON.stringify(list), "[1,2]");
+  assertEquals(list.toString(), "1,2");
+  assertEquals([...list], [1, 2]);
+});
+
+Deno.test("NonEmptyList.of requires an element", () => {
+  // @ts-expect-error: a NonEmptyList needs at least one element
+  NonEmptyList.of();
+});
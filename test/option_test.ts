@@ -142,3 +142,86 @@ Deno.test("Option.orElse", () => {
   assertSome(some().orElse(f), 10);
   assertSome(none.orElse(f), 20);
 });
+
+Deno.test("Option.gen", () => {
+  const half = (value: number): Option<number> =>
+    value % 2 === 0 ? Some(value / 2) : None;
+
+  const compute = (input: number) =>
+    Option.gen(function* () {
+      const a = yield* some(input);
+      const b = yield* half(a);
+      return a + b;
+    });
+
+  assertSome(compute(10), 15);
+  assertNone(compute(3));
+  assertNone(Option.gen(function* () {
+    return yield* none;
+  }));
+});
+
+Deno.test("Option.fromPredicate", () => {
+  assertSome(Option.fromPredicate(10, (v) => v > 0), 10);
+  assertNone(Option.fromPredicate(-10, (v) => v > 0));
+  assertNone(Option.fromPredicate(null as number | null, (v) => v > 0));
+});
+
+Deno.test("Option.fromIterable", () => {
+  assertSome(Option.fromIterable(new Set([1, 2])), 1);
+  assertNone(Option.fromIterable([]));
+});
+
+Deno.test("Option.prop", () => {
+  const user: { name?: string } | null = { name: "Ada" };
+  assertSome(Option.prop(user, "name"), "Ada");
+  assertNone(Option.prop({} as { name?: string }, "name"));
+  assertNone(Option.prop(null as { name?: string } | null, "name"));
+});
+
+Deno.test("Option.path", () => {
+  type User = { addresses?: { city: string | null }[] };
+  const user: User = { addresses: [{ city: "Paris" }, { city: null }] };
+  assertSome(Option.path(user, ["addresses", 0, "city"]), "Paris");
+  assertNone(Option.path(user, ["addresses", 1, "city"]));
+  assertNone(Option.path(user, ["addresses", 2, "city"]));
+  assertNone(Option.path({} as User, ["addresses", 0, "city"]));
+});
+
+Deno.test("Option.toNullable", () => {
+  assertEquals(some().toNullable(), 10);
+  assertEquals(none.toNullable(), null);
+});
+
+Deno.test("Option.toUndefined", () => {
+  assertEquals(some().toUndefined(), 10);
+  assertEquals(none.toUndefined(), undefined);
+});
+
+Deno.test("Option.zip", () => {
+  assertSome(some().zip(Some("a")), [10, "a"]);
+  assertNone(some().zip(None));
+  assertNone(none.zip(Some("a")));
+});
+
+Deno.test("Option.zipWith", () => {
+  const f = (a: number, b: number) => a + b;
+  assertSome(some().zipWith(some(5), f), 15);
+  assertNone(none.zipWith(some(5), f));
+});
+
+Deno.test("Option.unzip", () => {
+  const [a, b] = Some<[number, string]>([10, "a"]).unzip();
+  assertSome(a, 10);
+  assertSome(b, "a");
+
+  const [c, d] = (None as Option<[number, string]>).unzip();
+  assertNone(c);
+  assertNone(d);
+});
+
+Deno.test("Option.flatten", () => {
+  assertSome(Some(some()).flatten(), 10);
+  assertNone(Some(none).flatten());
+  assertNone((None as Option<Option<number>>).flatten());
+});
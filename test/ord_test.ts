@@ -0,0 +1,120 @@
+import { assertEquals } from "assert";
+import { List } from "../src/list.ts";
+import { None, Some } from "../src/option.ts";
+import * as Ord from "../src/ord.ts";
+
+type User = { name: string; age: number };
+
+const users = List.of<User>(
+  { name: "bob", age: 30 },
+  { name: "Alice", age: 25 },
+  { name: "carol", age: 30 },
+);
+
+Deno.test("Ord.number", () => {
+  assertEquals(List.of(10, NaN, 2, 33).sort(Ord.number).toArray(), [
+    2,
+    10,
+    33,
+    NaN,
+  ]);
+});
+
+Deno.test("Ord.string", () => {
+  assertEquals(List.of("b", "B", "a").sort(Ord.string()).toArray(), [
+    "B",
+    "a",
+    "b",
+  ]);
+  assertEquals(
+    List.of("item10", "item2").sort(Ord.string({ numeric: true })).toArray(),
+    ["item2", "item10"],
+  );
+  assertEquals(
+    List.of("b", "a", "B").sort(
+      Ord.string({ locale: "en", sensitivity: "base" }),
+    )
+      .toArray(),
+    ["a", "b", "B"],
+  );
+});
+
+Deno.test("Ord.date", () => {
+  const dates = List.of(new Date(2), new Date(0), new Date(1));
+  assertEquals(dates.sort(Ord.date).toArray(), [
+    new Date(0),
+    new Date(1),
+    new Date(2),
+  ]);
+});
+
+Deno.test("Ord.option", () => {
+  const options = List.of(Some(2), None, Some(1));
+  assertEquals(options.sort(Ord.option(Ord.number)).toArray(), [
+    None,
+    Some(1),
+    Some(2),
+  ]);
+  assertEquals(options.sort(Ord.option(Ord.number, "noneLast")).toArray(), [
+    Some(1),
+    Some(2),
+    None,
+  ]);
+});
+
+Deno.test("Ord.combine", () => {
+  const byAgeDescThenName = Ord.combine(
+    Ord.reverse(Ord.by((user: User) => user.age)),
+    Ord.by((user: User) => user.name, Ord.string({ sensitivity: "base" })),
+  );
+  assertEquals(
+    users.sort(byAgeDescThenName).map((user) => user.name).toArray(),
+    ["bob", "carol", "Alice"],
+  );
+});
+
+Deno.test("List.sortBy", () => {
+  assertEquals(
+    users.sortBy((user) => user.age).map((user) => user.name).toArray(),
+    ["Alice", "bob", "carol"],
+  );
+  assertEquals(
+    users.sortBy((user) => user.age, Ord.reverse(Ord.number))
+      .map((user) => user.name).toArray(),
+    ["bob", "carol", "Alice"],
+  );
+});
+
+Deno.test("List.minBy and List.maxBy", () => {
+  assertEquals(users.minBy((user) => user.age).unwrap().name, "Alice");
+  assertEquals(users.maxBy((user) => user.age).unwrap().name, "bob");
+  assertEquals(List.empty<User>().minBy((user) => user.age), None);
+});
+
+Deno.test("List.binarySearch", () => {
+  const list = List.of(10, 20, 30);
+  assertEquals(list.binarySearch(20).unwrap(), 1);
+  assertEquals(list.binarySearch(25).unwrapErr(), 2);
+  assertEquals(list.binarySearch(5).unwrapErr(), 0);
+  assertEquals(list.binarySearch(35).unwrapErr(), 3);
+  assertEquals(
+    List.of(30, 20, 10).binarySearch(20, Ord.reverse(Ord.number)).unwrap(),
+    1,
+  );
+});
+
+Deno.test("List.insertSorted", () => {
+  assertEquals(List.of(10, 20, 30).insertSorted(25).toArray(), [
+    10,
+    20,
+    25,
+    30,
+  ]);
+  assertEquals(List.empty<number>().insertSorted(1).toArray(), [1]);
+  const byAge = Ord.by((user: User) => user.age);
+  assertEquals(
+    users.sort(byAge).insertSorted({ name: "dave", age: 30 }, byAge)
+      .map((user) => user.name).toArray(),
+    ["Alice", "bob", "carol", "dave"],
+  );
+});
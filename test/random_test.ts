@@ -0,0 +1,42 @@
+import { assert, assertEquals, assertNotEquals } from "assert";
+import { SeededRandom } from "../src/random.ts";
+
+const take = (rng: SeededRandom, count: number) =>
+  Array.from({ length: count }, () => rng.next());
+
+Deno.test("SeededRandom.from", async (t) => {
+  await t.step("produces the same numbers for the same seed", () => {
+    assertEquals(
+      take(SeededRandom.from(42), 10),
+      take(SeededRandom.from(42), 10),
+    );
+  });
+
+  await t.step("produces different numbers for different seeds", () => {
+    assertNotEquals(
+      take(SeededRandom.from(1), 10),
+      take(SeededRandom.from(2), 10),
+    );
+  });
+
+  await t.step("accepts any number as a seed", () => {
+    for (const seed of [0, -1, 0.5, Date.UTC(2024, 0), NaN]) {
+      const numbers = take(SeededRandom.from(seed), 10);
+      assert(new Set(numbers).size > 1);
+    }
+  });
+});
+
+Deno.test("SeededRandom.next", () => {
+  const numbers = take(SeededRandom.from(7), 10_000);
+  assert(numbers.every((n) => n >= 0 && n < 1));
+  const mean = numbers.reduce((a, b) => a + b) / numbers.length;
+  assert(Math.abs(mean - 0.5) < 0.02);
+});
+
+Deno.test("SeededRandom.clone", () => {
+  const rng = SeededRandom.from(3);
+  rng.next();
+  const copy = rng.clone();
+  assertEquals(take(copy, 5), take(rng, 5));
+});
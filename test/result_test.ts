@@ -1,6 +1,9 @@
-import { assert, assertFalse } from "assert";
+import { assert, assertEquals, assertFalse, assertInstanceOf } from "assert";
 import { spy, assertSpyCall, assertSpyCalls } from "mock";
+import { List } from "../src/list.ts";
+import { TaggedError } from "../src/error.ts";
 import { Err, Ok, Result } from "../src/result.ts";
+import { raise } from "../src/util.ts";
 import { assertErr, assertOk } from "./util.ts";
 
 const ok = (value = 10): Result<number, string> => Ok(value);
@@ -22,3 +25,166 @@ Deno.test("Result.isOk", () => {
 Deno.test("Result.isOkAnd", () => {
   const f = spy(() => false);
 });
+
+Deno.test("Result.try", () => {
+  assertOk(Result.try(() => 10), 10);
+
+  const error = new Error("oops");
+  assertErr(Result.try(() => raise("oops", error)));
+  assertEquals(
+    Result.try(() => {
+      throw error;
+    }).unwrapErr(),
+    error,
+  );
+
+  const wrapped = Result.try(() => {
+    throw "oops";
+  }).unwrapErr();
+  assertEquals(wrapped.message, "oops");
+  assertEquals(wrapped.cause, "oops");
+
+  assertErr(
+    Result.try(() => {
+      throw 42;
+    }, (cause) => `code ${cause}`),
+    "code 42",
+  );
+});
+
+Deno.test("Result.fromPromise", async () => {
+  assertOk(await Result.fromPromise(Promise.resolve(10)), 10);
+  assertEquals(
+    (await Result.fromPromise(Promise.reject("oops"))).unwrapErr().cause,
+    "oops",
+  );
+  assertErr(
+    await Result.fromPromise(Promise.reject(42), (cause) => `code ${cause}`),
+    "code 42",
+  );
+});
+
+Deno.test("Result.wrap", () => {
+  const parse = Result.wrap(JSON.parse);
+  assertOk(parse("10"), 10);
+  assertInstanceOf(parse("{").unwrapErr(), SyntaxError);
+
+  const parseOr = Result.wrap(JSON.parse, () => "invalid json");
+  assertErr(parseOr("{"), "invalid json");
+});
+
+Deno.test("Result.all", () => {
+  const tuple: Result<[number, string], string | boolean> = Result.all([
+    ok(),
+    Ok("ten") as Result<string, boolean>,
+  ]);
+  assertOk(tuple, [10, "ten"]);
+  assertErr(Result.all([ok(), err("a"), err("b")]), "a");
+
+  const record: Result<{ a: number; b: string }, string> = Result.all({
+    a: ok(),
+    b: Ok("ten"),
+  });
+  assertOk(record, { a: 10, b: "ten" });
+  assertErr(Result.all({ a: ok(), b: err() }), "oops");
+
+  const list: Result<List<number>, string> = Result.all(List.of(ok(1), ok(2)));
+  assertEquals(list.unwrap().toArray(), [1, 2]);
+  assertErr(Result.all(List.of(ok(), err())), "oops");
+
+  assertOk(Result.all(new Set([ok(1), ok(2)])), [1, 2]);
+});
+
+Deno.test("Result.collectErrors", () => {
+  assertOk(Result.collectErrors([ok(1), ok(2)]), [1, 2]);
+  assertErr(Result.collectErrors([ok(), err("a"), err("b")]), ["a", "b"]);
+  assertEquals(
+    Result.collectErrors(List.of(ok(), err("a"), err("b")))
+      .unwrapErr()
+      .toArray(),
+    ["a", "b"],
+  );
+});
+
+Deno.test("Result.any", () => {
+  assertOk(Result.any([err("a"), ok(1), ok(2)]), 1);
+  assertErr(Result.any([err("a"), err("b")]), ["a", "b"]);
+  assertEquals(
+    Result.any(List.of(err("a"), err("b"))).unwrapErr().toArray(),
+    ["a", "b"],
+  );
+});
+
+Deno.test("Result.partition", () => {
+  assertEquals(Result.partition([ok(1), err("a"), ok(2)]), [[1, 2], ["a"]]);
+
+  const [oks, errs] = Result.partition(List.of(ok(1), err("a"), ok(2)));
+  assertEquals(oks.toArray(), [1, 2]);
+  assertEquals(errs.toArray(), ["a"]);
+});
+
+Deno.test("Result.gen", () => {
+  const half = (value: number): Result<number, "odd"> =>
+    value % 2 === 0 ? Ok(value / 2) : Err("odd");
+  const positive = (value: number): Result<number, "negative"> =>
+    value >= 0 ? Ok(value) : Err("negative");
+
+  const compute = (input: number): Result<number, "odd" | "negative"> =>
+    Result.gen(function* () {
+      const a = yield* positive(input);
+      const b = yield* half(a);
+      return a + b;
+    });
+
+  assertOk(compute(10), 15);
+  assertErr(compute(-2), "negative");
+  assertErr(compute(3), "odd");
+
+  const cleanup = spy(() => void 0);
+  Result.gen(function* () {
+    try {
+      return yield* err();
+    } finally {
+      cleanup();
+    }
+  });
+  assertSpyCalls(cleanup, 1);
+});
+
+Deno.test("Result.catchTag", () => {
+  class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+  class Forbidden extends TaggedError("Forbidden") {}
+
+  const find = (id: string): Result<string, NotFound | Forbidden> =>
+    id === "guest"
+      ? Err(new Forbidden())
+      : id === "admin"
+      ? Ok("admin")
+      : Err(new NotFound({ id }));
+
+  const recovered: Result<string, Forbidden> = find("42").catchTag(
+    "NotFound",
+    (error) => Ok(`missing ${error.id}`),
+  );
+  assertOk(recovered, "missing 42");
+  assertOk(find("admin").catchTag("NotFound", () => Ok("fallback")), "admin");
+  assertInstanceOf(
+    find("guest").catchTag("NotFound", () => Ok("fallback")).unwrapErr(),
+    Forbidden,
+  );
+});
+
+Deno.test("Result.matchTag", () => {
+  class NotFound extends TaggedError("NotFound") {}
+  class Forbidden extends TaggedError("Forbidden") {}
+
+  const status = (result: Result<string, NotFound | Forbidden>) =>
+    result.matchTag(() => 200, {
+      NotFound: () => 404,
+      Forbidden: () => 403,
+    });
+
+  assertEquals(status(Ok("user")), 200);
+  assertEquals(status(Err(new NotFound())), 404);
+  assertEquals(status(Err(new Forbidden())), 403);
+});
@@ -0,0 +1,409 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "assert";
+import { Some } from "../src/option.ts";
+import { Err, Ok } from "../src/result.ts";
+import * as z from "../src/schema.ts";
+import { assertNone } from "./util.ts";
+
+const address = z.object({
+  street: z.string(),
+  zip: z.string([z.minLength(5)]),
+});
+
+const user = z.object({
+  name: z.string(),
+  age: z.number([z.min(0)]),
+  address,
+  tags: z.list(z.string()),
+});
+
+Deno.test("z.object collects the errors of every field", () => {
+  const errors = user.parse({
+    name: 1,
+    age: -1,
+    address: { street: "Main", zip: "12" },
+    tags: ["a", 2, 3],
+  }).unwrapErr();
+  assertEquals(errors.map(({ path }) => path.join(".")).toArray(), [
+    "name",
+    "age",
+    "address.zip",
+    "tags.1",
+    "tags.2",
+  ]);
+});
+
+Deno.test("z.tuple collects the errors of every element", () => {
+  const errors = z.tuple([z.string(), z.number()]).parse([1, "a"]).unwrapErr();
+  assertEquals(errors.toArray(), [
+    { path: ["0"], message: "Expected string", input: 1 },
+    { path: ["1"], message: "Expected number", input: "a" },
+  ]);
+});
+
+Deno.test("abortEarly stops at the first error", () => {
+  const errors = user.parse({ name: 1, age: -1 }, { abortEarly: true })
+    .unwrapErr();
+  assertEquals(errors.toArray(), [
+    { path: ["name"], message: "Expected string", input: 1 },
+  ]);
+  const nested = z.list(z.list(z.number()))
+    .parse([[1, "a", "b"], ["c"]], { abortEarly: true })
+    .unwrapErr();
+  assertEquals(nested.map(({ path }) => path).toArray(), [["0", "1"]]);
+});
+
+Deno.test("parse errors do not share their paths", () => {
+  const schema = z.list(address);
+  const input = [{ street: 1, zip: "12345" }, { street: 2, zip: "12345" }];
+  const first = schema.parse(input).unwrapErr();
+  const second = schema.parse(input).unwrapErr();
+  assertEquals(first.toArray(), second.toArray());
+  assertEquals(first.map(({ path }) => path).toArray(), [
+    ["0", "street"],
+    ["1", "street"],
+  ]);
+});
+
+Deno.test("z.flatten", () => {
+  const errors = z.object({
+    address: z.object({ zip: z.string([z.minLength(5), z.maxLength(1)]) }),
+    name: z.string(),
+  }).parse({ address: { zip: 1 }, name: null }).unwrapErr();
+  assertEquals(z.flatten(errors), {
+    "address.zip": ["Expected string"],
+    name: ["Expected string"],
+  });
+  assertEquals(z.flatten(z.string().parse(1).unwrapErr()), {
+    "": ["Expected string"],
+  });
+  assertEquals(
+    z.flatten([
+      { path: ["__proto__"], message: "a", input: null },
+      { path: ["__proto__"], message: "b", input: null },
+    ])["__proto__"],
+    ["a", "b"],
+  );
+});
+
+Deno.test("z.nonEmptyList", () => {
+  const schema = z.nonEmptyList(z.number());
+  assertEquals(schema.parse([3, 1]).unwrap().firstItem(), 3);
+  assertEquals(schema.parse([]).unwrapErr().toArray(), [{
+    path: [],
+    message: "Expected non-empty array",
+    input: [],
+  }]);
+  assertEquals(
+    schema.parse([1, "a"]).unwrapErr().map(({ path }) => path).toArray(),
+    [["1"]],
+  );
+  assertEquals(z.coerce(schema).parse(5).unwrap().toArray(), [5]);
+});
+
+const taken = new Set(["admin"]);
+const available = (name: string) =>
+  Promise.resolve(taken.has(name) ? Err("Username is taken") : Ok(name));
+
+Deno.test("z.refineAsync", async () => {
+  const username = z.refineAsync(z.string([z.trim()]), available);
+  assert(username.async);
+  assertEquals(await username.parseAsync(" bob ").unwrap(), "bob");
+  assertEquals((await username.parseAsync("admin").unwrapErr()).toArray(), [
+    { path: [], message: "Username is taken", input: "admin" },
+  ]);
+  assertEquals(
+    (await username.parseAsync(1).unwrapErr()).map(({ message }) => message)
+      .toArray(),
+    ["Expected string"],
+  );
+  assertEquals(username.parse("bob").unwrapErr().toArray(), [{
+    path: [],
+    message: "Schema string has async checks, use parseAsync instead",
+    input: "bob",
+  }]);
+  assertEquals(
+    z.flatten(z.object({ name: username }).parse({ name: "bob" }).unwrapErr()),
+    { name: ["Schema string has async checks, use parseAsync instead"] },
+  );
+});
+
+Deno.test("parseAsync propagates through composite schemas", async () => {
+  const username = z.refineAsync(z.string(), available);
+  const form = z.object({
+    name: username,
+    friends: z.list(username),
+    pair: z.tuple([username, z.number()]),
+    nickname: z.optional(username),
+    role: z.defaulted(username, "guest"),
+    id: z.union([z.number(), username]),
+  });
+  assert(form.async);
+  const value = await form.parseAsync({
+    name: "bob",
+    friends: ["carol"],
+    pair: ["dave", 1],
+    id: "erin",
+  }).unwrap();
+  assertEquals(value.friends.toArray(), ["carol"]);
+  assertEquals(value.role, "guest");
+  assertNone(value.nickname);
+
+  const errors = await form.parseAsync({
+    name: "admin",
+    friends: ["admin", "ok"],
+    pair: ["admin", "x"],
+    nickname: "admin",
+    id: "admin",
+  }).unwrapErr();
+  assertEquals(z.flatten(errors), {
+    name: ["Username is taken"],
+    "friends.0": ["Username is taken"],
+    "pair.0": ["Username is taken"],
+    "pair.1": ["Expected number"],
+    nickname: ["Username is taken"],
+    id: [
+      "Expecting one of number, string",
+      "Expected number",
+      "Username is taken",
+    ],
+  });
+
+  const first = await form.parseAsync({ name: "admin", friends: ["admin"] }, {
+    abortEarly: true,
+  }).unwrapErr();
+  assertEquals(first.map(({ path }) => path).toArray(), [["name"]]);
+});
+
+Deno.test("parseAsync runs object fields concurrently", async () => {
+  const started: string[] = [];
+  const slow = (key: string) =>
+    z.refineAsync(z.string(), async (input) => {
+      started.push(key);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      started.push(`${key} done`);
+      return Ok(input);
+    });
+  await z.object({ a: slow("a"), b: slow("b") }).parseAsync({ a: "", b: "" });
+  assertEquals(started, ["a", "b", "a done", "b done"]);
+});
+
+Deno.test("parseAsync stops at the first failing field when aborting early", async () => {
+  const checked: string[] = [];
+  const tracked = (key: string) =>
+    z.refineAsync(z.string(), (input) => {
+      checked.push(key);
+      return Promise.resolve(Ok(input));
+    });
+  const form = z.object({ a: z.number(), b: tracked("b"), c: tracked("c") });
+  const errors = await form.parseAsync({ a: "x", b: "", c: "" }, {
+    abortEarly: true,
+  }).unwrapErr();
+  assertEquals(errors.map(({ path }) => path).toArray(), [["a"]]);
+  assertEquals(checked, []);
+  await form.parseAsync({ a: 1, b: "", c: "" }, { abortEarly: true });
+  assertEquals(checked, ["b", "c"]);
+});
+
+Deno.test("sync schemas parse asynchronously", async () => {
+  const schema = z.object({ name: z.string() });
+  assertFalse(schema.async);
+  assertEquals((await schema.parseAsync({ name: "a" })).unwrap().name, "a");
+  assertEquals(await z.coerce(z.number()).parseAsync("2").unwrap(), 2);
+});
+
+Deno.test("z.transform", () => {
+  const money = z.transform(z.number([z.integer()]), (cents) => ({
+    amount: cents / 100,
+    currency: "EUR",
+  }));
+  assertEquals(money.parse(1999).unwrap(), { amount: 19.99, currency: "EUR" });
+  assertEquals(
+    money.parse(19.99).unwrapErr().toArray(),
+    [{ path: [], message: "Expecting number to be an integer", input: 19.99 }],
+  );
+
+  const input: z.InferInput<typeof money> = 1999;
+  const output: z.InferOutput<typeof money> = { amount: 1, currency: "EUR" };
+  assertEquals([input, output.amount], [1999, 1]);
+});
+
+Deno.test("z.pipe", () => {
+  const isoDate = z.pipe(
+    z.transform(z.string(), (iso) => new Date(iso)),
+    z.date("Expected ISO date"),
+  );
+  const event = z.object({ at: isoDate, tags: z.list(isoDate) });
+  const parsed = event.parse({ at: "2024-01-02T00:00:00Z", tags: [] });
+  assertEquals(parsed.unwrap().at, new Date("2024-01-02T00:00:00Z"));
+  assertEquals(
+    z.flatten(event.parse({ at: "soon", tags: [1] }).unwrapErr()),
+    { at: ["Expected ISO date"], "tags.0": ["Expected string"] },
+  );
+
+  const input: z.InferInput<typeof event> = { at: "", tags: [""] };
+  const output: z.Infer<typeof event> = parsed.unwrap();
+  assertEquals([input.at, output.tags.toArray()], ["", []]);
+});
+
+Deno.test("z.transform and z.pipe parse asynchronously", async () => {
+  const length = z.transform(
+    z.refineAsync(z.string(), (input) => Promise.resolve(Ok(input))),
+    (input) => input.length,
+  );
+  assert(length.async);
+  assertEquals(await length.parseAsync("abc").unwrap(), 3);
+
+  const positive = z.pipe(length, z.number([z.min(1)]));
+  assert(positive.async);
+  assertEquals(
+    (await positive.parseAsync("")).unwrapErr().first().map((e) => e.message),
+    Some("Expected number to be at minimum 1"),
+  );
+});
+
+Deno.test("chainable string and number checks", () => {
+  const name = z.string().trim().min(2).max(5, "Too long");
+  assertEquals(name.parse("  ab ").unwrap(), "ab");
+  assertEquals(
+    name.parse("abcdef").unwrapErr().toArray(),
+    [{ path: [], message: "Too long", input: "abcdef" }],
+  );
+  assertEquals(
+    z.string().email().parse("nope").unwrapErr().first().map((e) => e.message),
+    Some("Expected string to be a valid email address"),
+  );
+
+  const age = z.number().integer().min(0).clamp(0, 120);
+  assertEquals(age.parse(130).unwrap(), 120);
+  assert(age.parse(-1).isErr());
+  assert(age.parse(1.5).isErr());
+});
+
+Deno.test("chained schemas are immutable", () => {
+  const base = z.string();
+  const short = base.max(2);
+  const described = short.describe("A short string");
+  assertEquals(base.parse("abc").unwrap(), "abc");
+  assert(short.parse("abc").isErr());
+  assertEquals(described.description, "A short string");
+  assertEquals(short.description, undefined);
+  assert(described.min(1).parse("").isErr());
+});
+
+Deno.test("chainable optional, default, refine, transform and pipe", () => {
+  const even = z.number().refine((n) => n % 2 === 0, "Expected even number");
+  assertEquals(
+    even.parse(3).unwrapErr().first().map((e) => e.message),
+    Some("Expected even number"),
+  );
+
+  const form = z.object({
+    nickname: z.string().min(3).optional(),
+    page: z.number().integer().default(1),
+    price: z.number().transform((cents) => cents / 100),
+    at: z.string().transform((iso) => new Date(iso)).pipe(z.date()),
+  }).refine((form) => form.page < 10, "Too far");
+  const parsed = form.parse({ price: 250, at: "2024-01-01" }).unwrap();
+  assertNone(parsed.nickname);
+  assertEquals([parsed.page, parsed.price], [1, 2.5]);
+  assertEquals(Object.keys(form.shape), ["nickname", "page", "price", "at"]);
+  assertEquals(
+    z.flatten(form.parse({ page: 20, price: 0, at: "2024-01-01" }).unwrapErr()),
+    { "": ["Too far"] },
+  );
+  assertEquals(
+    z.flatten(form.parse({ nickname: "a", price: 0, at: "x" }).unwrapErr()),
+    {
+      nickname: ["Expected string to have a minimum of 3 characters"],
+      at: ["Expected date"],
+    },
+  );
+});
+
+Deno.test("brand", () => {
+  const email = z.string().email().brand<"Email">();
+  const send = (to: z.Infer<typeof email>) => to.length;
+  assertEquals(send(email.parse("a@b.co").unwrap()), 6);
+});
+
+Deno.test("z.union groups the errors of every member", () => {
+  const id = z.union([z.number().integer(), z.string().min(3)]);
+  assertEquals(id.parse(1.5).unwrapErr().toArray(), [{
+    path: [],
+    message: "Expecting one of number, string",
+    input: 1.5,
+    issues: [
+      [{ path: [], message: "Expecting number to be an integer", input: 1.5 }],
+      [{ path: [], message: "Expected string", input: 1.5 }],
+    ],
+  }]);
+  const form = z.object({ ids: z.list(id) });
+  const [error] = form.parse({ ids: ["a"] }).unwrapErr();
+  assertEquals(error.path, ["ids", "0"]);
+  assertEquals(
+    error.issues?.map((member) => member.map(({ path }) => path)),
+    [[["ids", "0"]], [["ids", "0"]]],
+  );
+
+  const contact = z.object({
+    contact: z.union([
+      z.object({ email: z.string().email() }),
+      z.object({ phone: z.number() }),
+    ]),
+  });
+  assertEquals(
+    z.flatten(contact.parse({ contact: { email: "x" } }).unwrapErr()),
+    {
+      contact: ["Expecting one of object, object"],
+      "contact.email": ["Expected string to be a valid email address"],
+      "contact.phone": ["Expected number"],
+    },
+  );
+  assertEquals(
+    id.parse("a", { abortEarly: true }).unwrapErr().toArray(),
+    [{ path: [], message: "Expecting one of number, string", input: "a" }],
+  );
+});
+
+const shape = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("circle"), radius: z.number().min(0) }),
+  z.object({ type: z.literal("square"), size: z.number(), unit: z.string() }),
+]);
+
+Deno.test("z.discriminatedUnion", async () => {
+  assertEquals(shape.parse({ type: "circle", radius: 1 }).unwrap(), {
+    type: "circle",
+    radius: 1,
+  });
+  assertEquals(
+    z.flatten(shape.parse({ type: "square", size: "1" }).unwrapErr()),
+    { size: ["Expected number"], unit: ["Expected string"] },
+  );
+  assertEquals(
+    shape.parse({ type: "triangle" }).unwrapErr().toArray(),
+    [{
+      path: ["type"],
+      message: "Expecting one of circle, square",
+      input: "triangle",
+    }],
+  );
+  assertEquals(
+    z.flatten(shape.parse(null).unwrapErr()),
+    { "": ["Expected object"] },
+  );
+  assert((await shape.parseAsync({ type: "circle", radius: -1 })).isErr());
+});
+
+Deno.test("z.discriminatedUnion checks its members", () => {
+  assertThrows(() =>
+    z.discriminatedUnion("type", [
+      z.object({ type: z.union([z.literal("a"), z.literal("b")]) }),
+    ])
+  );
+  assertThrows(() =>
+    z.discriminatedUnion("type", [
+      z.object({ type: z.literal("a") }),
+      z.object({ type: z.literal("a"), other: z.string() }),
+    ])
+  );
+});
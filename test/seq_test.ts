@@ -0,0 +1,156 @@
+import { assertEquals, assertThrows } from "assert";
+import { assertSpyCalls, spy } from "mock";
+import { List } from "../src/list.ts";
+import { SeededRandom } from "../src/random.ts";
+import { Seq } from "../src/seq.ts";
+import { assertNone, assertSome } from "./util.ts";
+
+Deno.test("Seq.of", () => {
+  assertEquals(Seq.of(1, 2, 3).toArray(), [1, 2, 3]);
+  assertEquals(Seq.empty<number>().toArray(), []);
+});
+
+Deno.test("Seq.from", () => {
+  const seq = Seq.from(List.of(1, 2, 3));
+  assertEquals(seq.toArray(), [1, 2, 3]);
+  assertEquals(seq.toArray(), [1, 2, 3]);
+  assertEquals(List.of(1, 2).toSeq().toList().toArray(), [1, 2]);
+});
+
+Deno.test("Seq.range", () => {
+  assertEquals(Seq.range(0, 5).toArray(), [0, 1, 2, 3, 4]);
+  assertEquals(Seq.range(5, 0).toArray(), [5, 4, 3, 2, 1]);
+  assertEquals(Seq.range(0, 10, 3).toArray(), [0, 3, 6, 9]);
+  assertEquals(Seq.range(1).take(3).toArray(), [1, 2, 3]);
+  assertEquals(Seq.range(0, 5, 0).toArray(), []);
+});
+
+Deno.test("Seq.iterate", () => {
+  assertEquals(
+    Seq.iterate(1, (n) => n * 2).take(5).toArray(),
+    [1, 2, 4, 8, 16],
+  );
+});
+
+Deno.test("Seq.repeat", () => {
+  assertEquals(Seq.repeat("a", 3).toArray(), ["a", "a", "a"]);
+  assertEquals(Seq.repeat("a").take(2).toArray(), ["a", "a"]);
+});
+
+Deno.test("Seq.cycle", () => {
+  assertEquals(Seq.cycle([1, 2]).take(5).toArray(), [1, 2, 1, 2, 1]);
+  assertEquals(Seq.cycle([]).take(5).toArray(), []);
+});
+
+Deno.test("Seq.map", () => {
+  assertEquals(Seq.of(1, 2, 3).map((n) => n * 2).toArray(), [2, 4, 6]);
+});
+
+Deno.test("Seq.filter", () => {
+  const isString = (value: unknown): value is string =>
+    typeof value === "string";
+  assertEquals(
+    Seq.of<string | number>(1, "a", 2, "b").filter(isString).toArray(),
+    [
+      "a",
+      "b",
+    ],
+  );
+});
+
+Deno.test("Seq.flatMap", () => {
+  assertEquals(Seq.of("ab", "c").flatMap((word) => word).toArray(), [
+    "a",
+    "b",
+    "c",
+  ]);
+});
+
+Deno.test("Seq.takeWhile", () => {
+  assertEquals(Seq.range(1).takeWhile((n) => n < 4).toArray(), [1, 2, 3]);
+});
+
+Deno.test("Seq.drop", () => {
+  assertEquals(Seq.range(0, 5).drop(2).toArray(), [2, 3, 4]);
+});
+
+Deno.test("Seq.dropWhile", () => {
+  assertEquals(Seq.of(1, 2, 5, 1).dropWhile((n) => n < 3).toArray(), [5, 1]);
+});
+
+Deno.test("Seq.take", () => {
+  assertEquals(Seq.of(1, 2, 3).take(2).toArray(), [1, 2]);
+  assertEquals(Seq.of(1, 2).take(-1).toArray(), []);
+  assertThrows(() => Seq.range().take(NaN), RangeError);
+});
+
+Deno.test("Seq.zip", () => {
+  assertEquals(Seq.range().zip(["a", "b"]).toArray(), [[0, "a"], [1, "b"]]);
+
+  let closed = 0;
+  function* letters() {
+    try {
+      yield* ["a", "b", "c"];
+    } finally {
+      closed++;
+    }
+  }
+  assertEquals(Seq.of(1).zip(letters()).toArray(), [[1, "a"]]);
+  assertEquals(Seq.range().zip(letters()).take(2).toArray().length, 2);
+  assertEquals(closed, 2);
+});
+
+Deno.test("Seq.uniq", () => {
+  assertEquals(Seq.of(1, 2, 1, 3, 2).uniq().toArray(), [1, 2, 3]);
+  assertEquals(
+    Seq.of("a", "bb", "c").uniq((word) => word.length).toArray(),
+    ["a", "bb"],
+  );
+  assertEquals(Seq.of([1], [1], [2]).uniq().toArray(), [[1], [2]]);
+  assertEquals(
+    Seq.of({ x: 1, y: 1 }, { x: 1, y: 2 }).uniq(({ x }) => [x]).toArray(),
+    [{ x: 1, y: 1 }],
+  );
+});
+
+Deno.test("Seq.partition", () => {
+  const [even, odd] = Seq.range(0, 5).partition((n) => n % 2 === 0);
+  assertEquals(even.toArray(), [0, 2, 4]);
+  assertEquals(odd.toArray(), [1, 3]);
+});
+
+Deno.test("Seq.find", () => {
+  assertSome(Seq.range(1).find((n) => n % 7 === 0), 7);
+  assertNone(Seq.range(0, 5).find((n) => n > 10));
+  assertSome(Seq.range(3).first(), 3);
+  assertNone(Seq.empty().first());
+});
+
+Deno.test("Seq.reduce", () => {
+  assertEquals(Seq.range(1, 5).reduce(0, (sum, n) => sum + n), 10);
+});
+
+Deno.test("Seq fuses operations into a single pass", () => {
+  const double = spy((n: number) => n * 2);
+  const result = Seq.range()
+    .map(double)
+    .filter((n) => n % 3 === 0)
+    .take(2)
+    .toList();
+
+  assertEquals(result.toArray(), [0, 6]);
+  assertSpyCalls(double, 4);
+});
+
+Deno.test("Seq.sample", () => {
+  const sample = Seq.range(0, 100).sample(5, SeededRandom.from(1));
+  assertEquals(sample.toArray().length, 5);
+  assertEquals(new Set(sample).size, 5);
+  assertEquals(
+    sample.toArray(),
+    Seq.range(0, 100).sample(5, SeededRandom.from(1)).toArray(),
+  );
+  assertEquals(Seq.of(1, 2).sample(5).toArray(), [1, 2]);
+  assertEquals(Seq.of(1, 2).sample(0).toArray(), []);
+  assertThrows(() => Seq.of(1).sample(-1), RangeError);
+});
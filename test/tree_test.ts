@@ -0,0 +1,161 @@
+import { assertEquals } from "assert";
+import { List } from "../src/list.ts";
+import * as Tree from "../src/tree.ts";
+import { assertNone } from "./util.ts";
+
+type Menu = { label: string; children: List<Menu> };
+
+const node = (label: string, ...children: Menu[]): Menu => ({
+  label,
+  children: List.from(children),
+});
+
+const menu = node(
+  "root",
+  node("file", node("open"), node("save")),
+  node("edit", node("copy")),
+);
+
+const labels = (nodes: Iterable<Menu>) =>
+  Array.from(nodes, (item) => item.label);
+
+Deno.test("Tree.depthFirst", () => {
+  assertEquals(labels(Tree.depthFirst(menu)), [
+    "root",
+    "file",
+    "open",
+    "save",
+    "edit",
+    "copy",
+  ]);
+  assertEquals(labels(Tree.depthFirst(menu, "post")), [
+    "open",
+    "save",
+    "file",
+    "copy",
+    "edit",
+    "root",
+  ]);
+  assertEquals(labels(Tree.depthFirst(menu.children)), [
+    "file",
+    "open",
+    "save",
+    "edit",
+    "copy",
+  ]);
+});
+
+Deno.test("Tree.depthFirst on a deep tree", () => {
+  let deep = node("leaf");
+  for (let i = 0; i < 50_000; i++) deep = node(`${i}`, deep);
+  assertEquals(Tree.depthFirst(deep, "post").first().unwrap().label, "leaf");
+});
+
+Deno.test("Tree.map and Tree.filter on a deep tree", () => {
+  let deep = node("leaf");
+  for (let i = 0; i < 20_000; i++) deep = node(`${i}`, deep);
+  const upper = Tree.map(deep, (item, children: List<Menu>) => ({
+    label: item.label.toUpperCase(),
+    children,
+  }));
+  assertEquals(Tree.depthFirst(upper, "post").first().unwrap().label, "LEAF");
+  const filtered = Tree.filter(deep, (item) => item.label === "leaf").unwrap();
+  assertEquals(Tree.flatten(filtered).toArray().length, 20_001);
+});
+
+Deno.test("Tree.breadthFirst", () => {
+  assertEquals(labels(Tree.breadthFirst(menu)), [
+    "root",
+    "file",
+    "edit",
+    "open",
+    "save",
+    "copy",
+  ]);
+});
+
+Deno.test("Tree.map", () => {
+  type Sized = { size: number; children: List<Sized> };
+  const sized = Tree.map(menu, (_, children: List<Sized>): Sized => ({
+    size: children.sumBy((child) => child.size).unwrapOr(0) + 1,
+    children,
+  }));
+  assertEquals(sized.size, 6);
+  assertEquals(sized.children.map((child) => child.size).toArray(), [3, 2]);
+});
+
+Deno.test("Tree.filter", () => {
+  const filtered = Tree.filter(menu, (item) => item.label === "save").unwrap();
+  assertEquals(labels(Tree.depthFirst(filtered)), ["root", "file", "save"]);
+  assertEquals(labels(Tree.depthFirst(menu)).length, 6);
+  assertNone(Tree.filter(menu, () => false));
+  assertEquals(
+    labels(Tree.filter(menu.children, (item) => item.label === "edit")),
+    ["edit"],
+  );
+});
+
+Deno.test("Tree.findPath", () => {
+  const path = Tree.findPath(menu, (item) => item.label === "copy");
+  assertEquals(path.map(labels).unwrap(), ["root", "edit", "copy"]);
+  assertNone(Tree.findPath(menu, (item) => item.label === "paste"));
+});
+
+Deno.test("Tree.flatten", () => {
+  assertEquals(labels(Tree.flatten(menu.children.at(0).unwrap())), [
+    "file",
+    "open",
+    "save",
+  ]);
+});
+
+Deno.test("Tree.fromFlat", () => {
+  const rows = [
+    { id: 1, parentId: null, label: "root" },
+    { id: 2, parentId: 1, label: "a" },
+    { id: 3, parentId: 2, label: "b" },
+    { id: 4, parentId: 1, label: "c" },
+    { id: 5, parentId: 99, label: "orphan" },
+  ];
+  const forest = Tree.fromFlat(rows, (row) => row.id, (row) => row.parentId);
+  assertEquals(forest.map((root) => root.label).toArray(), ["root", "orphan"]);
+  assertEquals(labels(Tree.depthFirst(forest)), [
+    "root",
+    "a",
+    "b",
+    "c",
+    "orphan",
+  ]);
+  assertEquals(forest.first().unwrap().id, 1);
+});
+
+Deno.test("Tree.fromFlat on a deep chain", () => {
+  const rows = Array.from({ length: 20_000 }, (_, i) => ({
+    id: i,
+    parentId: i === 0 ? null : i - 1,
+  }));
+  const forest = Tree.fromFlat(rows, (row) => row.id, (row) => row.parentId);
+  assertEquals(forest.toArray().length, 1);
+  assertEquals(Tree.depthFirst(forest, "post").first().unwrap().id, 19_999);
+});
+
+Deno.test("Tree.fromFlat with composite keys", () => {
+  const rows = [
+    { id: ["a", 1], parentId: null, label: "root" },
+    { id: ["a", 2], parentId: ["a", 1], label: "x" },
+    { id: ["a", 3], parentId: ["a", 1], label: "y" },
+  ];
+  const forest = Tree.fromFlat(rows, (row) => row.id, (row) => row.parentId);
+  assertEquals(labels(Tree.depthFirst(forest)), ["root", "x", "y"]);
+});
+
+Deno.test("Tree.fromFlat leaves out records in a cycle", () => {
+  const rows = [
+    { id: 1, parentId: null, label: "root" },
+    { id: 2, parentId: 3, label: "a" },
+    { id: 3, parentId: 2, label: "b" },
+    { id: 4, parentId: 4, label: "self" },
+  ];
+  const forest = Tree.fromFlat(rows, (row) => row.id, (row) => row.parentId);
+  assertEquals(labels(Tree.depthFirst(forest)), ["root"]);
+});
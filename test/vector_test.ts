@@ -0,0 +1,65 @@
+import { assertEquals } from "assert";
+import { Vector } from "../src/vector.ts";
+
+const range = (length: number) => Array.from({ length }, (_, i) => i);
+
+Deno.test("Vector.from", () => {
+  assertEquals(Vector.from(range(100)).toArray(), range(100));
+  assertEquals(Vector.from([]).size, 0);
+});
+
+Deno.test("Vector.get", () => {
+  const vector = Vector.from(range(100));
+  assertEquals(vector.get(0), 0);
+  assertEquals(vector.get(57), 57);
+  assertEquals(vector.get(100), undefined);
+  assertEquals(vector.get(-1), undefined);
+});
+
+Deno.test("Vector.set", () => {
+  const vector = Vector.from(range(10));
+  const updated = vector.set(3, -1);
+  assertEquals(updated.get(3), -1);
+  assertEquals(vector.get(3), 3);
+  assertEquals(vector.set(10, -1), vector);
+});
+
+Deno.test("Vector.push", () => {
+  let vector = Vector.empty<number>();
+  for (let i = 0; i < 1000; i++) vector = vector.push(i);
+  assertEquals(vector.toArray(), range(1000));
+});
+
+Deno.test("Vector.insert and Vector.remove", () => {
+  let vector = Vector.empty<number>();
+  const expected: number[] = [];
+  for (let i = 0; i < 500; i++) {
+    const index = (i * 7919) % (expected.length + 1);
+    vector = vector.insert(index, i);
+    expected.splice(index, 0, i);
+  }
+  assertEquals(vector.toArray(), expected);
+
+  for (let i = 0; i < 250; i++) {
+    const index = (i * 104729) % expected.length;
+    vector = vector.remove(index);
+    expected.splice(index, 1);
+  }
+  assertEquals(vector.toArray(), expected);
+  assertEquals(vector.size, expected.length);
+});
+
+Deno.test("Vector.concat", () => {
+  const left = Vector.from(range(3));
+  const right = Vector.from(range(300));
+  assertEquals(left.concat(right).toArray(), [...range(3), ...range(300)]);
+  assertEquals(right.concat(left).toArray(), [...range(300), ...range(3)]);
+});
+
+Deno.test("Vector.slice", () => {
+  const array = range(100);
+  const vector = Vector.from(array);
+  for (const [start, end] of [[0, 10], [10, -10], [-5, undefined], [50, 20]]) {
+    assertEquals(vector.slice(start, end).toArray(), array.slice(start, end));
+  }
+});